@@ -0,0 +1,18 @@
+import { startRelay } from "./server";
+
+const port = Number.parseInt(process.env.PORT ?? "8787", 10);
+const host = process.env.HOST ?? "0.0.0.0";
+
+startRelay({ port, host })
+  .then((relay) => {
+    console.log(`Codenames Helper relay listening on ws://${host}:${relay.port}`);
+    const stop = () => {
+      relay.close().then(() => process.exit(0));
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  })
+  .catch((error: Error) => {
+    console.error(`Couldn't start the relay: ${error.message}`);
+    process.exit(1);
+  });
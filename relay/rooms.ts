@@ -0,0 +1,67 @@
+import type { HistorySnapshot } from "@/lib/history";
+import { ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH, type RelayedEvent, type RoomEvent } from "@/lib/relay";
+
+export type Room = {
+  code: string;
+  base: HistorySnapshot;
+  // Hash of the word pack the creator deals from
+  pack: string;
+  events: RelayedEvent[];
+  // Last time the room had no members, used to expire abandoned rooms
+  emptySince: number | null;
+};
+
+// Rooms are kept in memory only; restarting the relay ends every game on it
+export type RoomStore = Map<string, Room>;
+
+export const MAX_MEMBERS = 8;
+// Long games write a few hundred events; this only guards against runaway clients
+export const MAX_EVENTS = 5000;
+// Keeps memory bounded however many rooms clients open. At the limit the
+// room that has been empty longest makes way; with none empty, creating fails.
+export const MAX_ROOMS = 1000;
+
+function randomCode(): string {
+  let code = "";
+  for (let i = 0; i < ROOM_CODE_LENGTH; i += 1) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function evictIdleRoom(store: RoomStore): boolean {
+  let oldest: Room | null = null;
+  for (const room of store.values()) {
+    if (room.emptySince !== null && (!oldest || room.emptySince < (oldest.emptySince as number))) oldest = room;
+  }
+  if (!oldest) return false;
+  store.delete(oldest.code);
+  return true;
+}
+
+// Returns null when the relay holds `maxRooms` rooms and all of them are in use
+export function createRoom(store: RoomStore, base: HistorySnapshot, pack: string, maxRooms = MAX_ROOMS): Room | null {
+  if (store.size >= maxRooms && !evictIdleRoom(store)) return null;
+  let code = randomCode();
+  while (store.has(code)) code = randomCode();
+  const room: Room = { code, base, pack, events: [], emptySince: null };
+  store.set(code, room);
+  return room;
+}
+
+// Returns the stored event, or null when the room is full of events.
+// A retried event with a known id is returned as it was first stored.
+export function appendEvent(room: Room, id: string, from: string, event: RoomEvent): RelayedEvent | null {
+  const existing = room.events.find((e) => e.id === id && e.from === from);
+  if (existing) return existing;
+  if (room.events.length >= MAX_EVENTS) return null;
+  const relayed: RelayedEvent = { seq: room.events.length + 1, id, from, event };
+  room.events.push(relayed);
+  return relayed;
+}
+
+export function expireRooms(store: RoomStore, maxIdleMs: number, now = Date.now()) {
+  for (const [code, room] of store) {
+    if (room.emptySince !== null && now - room.emptySince > maxIdleMs) store.delete(code);
+  }
+}
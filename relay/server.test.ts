@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import WebSocket from "ws";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { snapshotFor } from "@/lib/history";
+import { RELAY_PROTOCOL_VERSION, type RoomEvent, type ServerMessage } from "@/lib/relay";
+import { MAX_EVENTS } from "./rooms";
+import { startRelay, type Relay } from "./server";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "relay",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+const BASE = snapshotFor(CONFIG);
+const PACK = "0k2x9ab";
+
+function guess(index: number): RoomEvent {
+  return { type: "action", action: { type: "guess", index } };
+}
+
+type Client = {
+  send: (message: unknown) => void;
+  // Resolves with the next message of `type`, including ones already received
+  next: <T extends ServerMessage["type"]>(type: T) => Promise<Extract<ServerMessage, { type: T }>>;
+  close: () => Promise<void>;
+};
+
+function connect(relay: Relay): Promise<Client> {
+  const socket = new WebSocket(`ws://127.0.0.1:${relay.port}`);
+  const inbox: ServerMessage[] = [];
+  const waiting: { type: string; resolve: (message: ServerMessage) => void }[] = [];
+  socket.on("message", (data) => {
+    const message = JSON.parse(String(data)) as ServerMessage;
+    const waiter = waiting.findIndex((w) => w.type === message.type);
+    if (waiter >= 0) waiting.splice(waiter, 1)[0].resolve(message);
+    else inbox.push(message);
+  });
+  const client: Client = {
+    send: (message) => socket.send(JSON.stringify(message)),
+    next: (type) =>
+      new Promise((resolve) => {
+        const index = inbox.findIndex((m) => m.type === type);
+        if (index >= 0) resolve(inbox.splice(index, 1)[0] as never);
+        else waiting.push({ type, resolve: resolve as (message: ServerMessage) => void });
+      }),
+    close: () =>
+      new Promise((done) => {
+        if (socket.readyState === socket.CLOSED) return done();
+        socket.once("close", () => done());
+        socket.close();
+      }),
+  };
+  return new Promise((resolve, reject) => {
+    socket.once("open", () => resolve(client));
+    socket.once("error", reject);
+  });
+}
+
+async function createRoom(relay: Relay, clientId: string) {
+  const client = await connect(relay);
+  client.send({ type: "create", protocol: RELAY_PROTOCOL_VERSION, clientId, base: BASE, pack: PACK });
+  const room = await client.next("room");
+  return { client, code: room.code };
+}
+
+async function joinRoom(relay: Relay, clientId: string, code: string, since = 0) {
+  const client = await connect(relay);
+  client.send({ type: "join", protocol: RELAY_PROTOCOL_VERSION, clientId, code, since });
+  return client;
+}
+
+describe("relay server", () => {
+  let relay: Relay;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    relay = await startRelay({ port: 0, host: "127.0.0.1", maxRooms: 2 });
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((c) => c.close()));
+    await relay.close();
+  });
+
+  it("lets a second player join with the creator's board", async () => {
+    const { client: host, code } = await createRoom(relay, "host");
+    const guest = await joinRoom(relay, "guest", code);
+    clients.push(host, guest);
+
+    const room = await guest.next("room");
+    expect(room).toMatchObject({ code, pack: PACK, events: [], peers: 2 });
+    expect(room.base).toEqual(JSON.parse(JSON.stringify(BASE)));
+    expect(await host.next("peers")).toEqual({ type: "peers", count: 1 });
+    expect(await host.next("peers")).toEqual({ type: "peers", count: 2 });
+  });
+
+  it("broadcasts events in sequence and only acknowledges a retry", async () => {
+    const { client: host, code } = await createRoom(relay, "host");
+    const guest = await joinRoom(relay, "guest", code);
+    clients.push(host, guest);
+    await guest.next("room");
+
+    host.send({ type: "event", id: "e1", event: guess(3) });
+    const sent = { seq: 1, id: "e1", from: "host", event: guess(3) };
+    expect((await host.next("event")).event).toEqual(sent);
+    expect((await guest.next("event")).event).toEqual(sent);
+
+    guest.send({ type: "event", id: "e1", event: guess(4) });
+    expect((await guest.next("event")).event).toMatchObject({ seq: 2, from: "guest" });
+    expect((await host.next("event")).event).toMatchObject({ seq: 2, from: "guest" });
+
+    host.send({ type: "event", id: "e1", event: guess(3) });
+    expect((await host.next("event")).event).toEqual(sent);
+    guest.send({ type: "event", id: "e3", event: { type: "undo" } });
+    // The retry never reached the guest, so its next event is the undo
+    expect((await guest.next("event")).event).toMatchObject({ seq: 3, event: { type: "undo" } });
+  });
+
+  it("replays only the missed events when a player rejoins", async () => {
+    const { client: host, code } = await createRoom(relay, "host");
+    clients.push(host);
+    for (const [i, id] of ["e1", "e2", "e3"].entries()) {
+      host.send({ type: "event", id, event: guess(i) });
+      await host.next("event");
+    }
+
+    const first = await joinRoom(relay, "guest", code);
+    expect((await first.next("room")).events.map((e) => e.seq)).toEqual([1, 2, 3]);
+    await first.close();
+
+    const again = await joinRoom(relay, "guest", code, 2);
+    clients.push(again);
+    expect((await again.next("room")).events).toEqual([{ seq: 3, id: "e3", from: "host", event: guess(2) }]);
+  });
+
+  it("stops taking events once a room reaches the cap", async () => {
+    const { client: host } = await createRoom(relay, "host");
+    clients.push(host);
+    for (let i = 0; i <= MAX_EVENTS; i += 1) host.send({ type: "event", id: `e${i}`, event: { type: "undo" } });
+
+    const error = await host.next("error");
+    expect(error).toMatchObject({ reason: "invalid", message: expect.stringContaining("event limit") });
+    for (let i = 0; i < MAX_EVENTS; i += 1) await host.next("event");
+    host.send({ type: "event", id: "e0", event: { type: "undo" } });
+    // Events already stored are still acknowledged
+    expect((await host.next("event")).event.seq).toBe(1);
+  });
+
+  it("refuses new rooms at the limit until one is left empty", async () => {
+    const first = await createRoom(relay, "one");
+    const second = await createRoom(relay, "two");
+    clients.push(second.client);
+
+    const third = await connect(relay);
+    clients.push(third);
+    third.send({ type: "create", protocol: RELAY_PROTOCOL_VERSION, clientId: "three", base: BASE, pack: PACK });
+    expect(await third.next("error")).toMatchObject({ reason: "full" });
+
+    await first.client.close();
+    // The relay notices the closed socket on its own schedule
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    third.send({ type: "create", protocol: RELAY_PROTOCOL_VERSION, clientId: "three", base: BASE, pack: PACK });
+    await third.next("room");
+
+    const late = await joinRoom(relay, "one", first.code);
+    clients.push(late);
+    expect(await late.next("error")).toMatchObject({ reason: "notFound" });
+  });
+});
@@ -0,0 +1,154 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import { RELAY_PROTOCOL_VERSION, parseClientMessage, type RelayErrorReason, type ServerMessage } from "@/lib/relay";
+import { MAX_MEMBERS, MAX_ROOMS, appendEvent, createRoom, expireRooms, type Room, type RoomStore } from "./rooms";
+
+export type RelayOptions = {
+  port: number;
+  host?: string;
+  // How long an empty room waits for its players to come back
+  roomTtlMs?: number;
+  maxRooms?: number;
+};
+
+export type Relay = {
+  port: number;
+  close: () => Promise<void>;
+};
+
+type Member = {
+  socket: WebSocket;
+  clientId: string | null;
+  room: Room | null;
+};
+
+const DEFAULT_ROOM_TTL_MS = 6 * 60 * 60 * 1000;
+const EXPIRY_INTERVAL_MS = 10 * 60 * 1000;
+// Boards and single events are small; anything bigger is not a real client
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export function startRelay({ port, host, roomTtlMs = DEFAULT_ROOM_TTL_MS, maxRooms = MAX_ROOMS }: RelayOptions): Promise<Relay> {
+  const rooms: RoomStore = new Map();
+  const members = new Set<Member>();
+  const server = new WebSocketServer({ port, host, maxPayload: MAX_MESSAGE_BYTES });
+  const expiry = setInterval(() => expireRooms(rooms, roomTtlMs), EXPIRY_INTERVAL_MS);
+
+  function send(member: Member, message: ServerMessage) {
+    if (member.socket.readyState === member.socket.OPEN) member.socket.send(JSON.stringify(message));
+  }
+
+  function fail(member: Member, reason: RelayErrorReason, message: string) {
+    send(member, { type: "error", reason, message });
+  }
+
+  function membersOf(room: Room): Member[] {
+    return [...members].filter((m) => m.room === room);
+  }
+
+  function announcePeers(room: Room) {
+    const inRoom = membersOf(room);
+    inRoom.forEach((m) => send(m, { type: "peers", count: inRoom.length }));
+  }
+
+  function enter(member: Member, room: Room, clientId: string, since: number) {
+    member.clientId = clientId;
+    member.room = room;
+    room.emptySince = null;
+    const events = room.events.filter((e) => e.seq > since);
+    send(member, { type: "room", code: room.code, base: room.base, pack: room.pack, events, peers: membersOf(room).length });
+    announcePeers(room);
+  }
+
+  function onMessage(member: Member, data: string) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      fail(member, "invalid", "Messages must be JSON.");
+      return;
+    }
+    const message = parseClientMessage(raw);
+    if (!message) {
+      fail(member, "invalid", "Unknown or malformed message.");
+      return;
+    }
+    switch (message.type) {
+      case "create":
+      case "join": {
+        if (message.protocol !== RELAY_PROTOCOL_VERSION) {
+          fail(member, "protocol", `This relay speaks protocol ${RELAY_PROTOCOL_VERSION}. Update the app or the relay.`);
+          return;
+        }
+        if (member.room) {
+          fail(member, "invalid", "Already in a room. Open a new connection to switch rooms.");
+          return;
+        }
+        if (message.type === "create") {
+          const room = createRoom(rooms, message.base, message.pack, maxRooms);
+          if (!room) {
+            fail(member, "full", "This relay has too many open rooms. Try again later.");
+            return;
+          }
+          enter(member, room, message.clientId, 0);
+          return;
+        }
+        const room = rooms.get(message.code);
+        if (!room) {
+          fail(member, "notFound", `Room ${message.code} doesn't exist or has expired.`);
+          return;
+        }
+        if (membersOf(room).length >= MAX_MEMBERS) {
+          fail(member, "full", `Room ${message.code} is full.`);
+          return;
+        }
+        enter(member, room, message.clientId, message.since);
+        return;
+      }
+      case "event": {
+        const { room, clientId } = member;
+        if (!room || !clientId) {
+          fail(member, "invalid", "Join a room before sending events.");
+          return;
+        }
+        const known = room.events.length;
+        const relayed = appendEvent(room, message.id, clientId, message.event);
+        if (!relayed) {
+          fail(member, "invalid", "This room has reached its event limit. Start a new room.");
+          return;
+        }
+        // Retries only need an acknowledgement; everyone else already has the event
+        if (room.events.length === known) send(member, { type: "event", event: relayed });
+        else membersOf(room).forEach((m) => send(m, { type: "event", event: relayed }));
+        return;
+      }
+    }
+  }
+
+  server.on("connection", (socket) => {
+    const member: Member = { socket, clientId: null, room: null };
+    members.add(member);
+    socket.on("message", (data) => onMessage(member, String(data)));
+    socket.on("close", () => {
+      members.delete(member);
+      const { room } = member;
+      if (!room) return;
+      if (membersOf(room).length === 0) room.emptySince = Date.now();
+      else announcePeers(room);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.once("listening", () => {
+      const address = server.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : port,
+        close: () =>
+          new Promise((done) => {
+            clearInterval(expiry);
+            members.forEach((m) => m.socket.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,38 @@
+// Compresses src/lib/clues/associations.txt into src/lib/clues/table.ts so
+// the clue assistant ships a small table and works offline. Run with
+// `npm run clues:table` after editing the associations.
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { deflateRawSync } from "node:zlib";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const dir = path.join(root, "src", "lib", "clues");
+const LINE = /^[a-z-]+:( [a-z-]+[123])+$/;
+
+const lines = readFileSync(path.join(dir, "associations.txt"), "utf8")
+  .split("\n")
+  .map((line) => line.trim().replace(/\s+/g, " "))
+  .filter((line) => line && !line.startsWith("#"));
+
+const clues = new Set();
+for (const [i, line] of lines.entries()) {
+  if (!LINE.test(line)) {
+    console.error(`build-clue-table: can't read entry ${i + 1}: ${line}`);
+    process.exit(1);
+  }
+  const clue = line.slice(0, line.indexOf(":"));
+  if (clues.has(clue)) {
+    console.error(`build-clue-table: "${clue}" is listed twice`);
+    process.exit(1);
+  }
+  clues.add(clue);
+}
+
+const text = lines.join("\n");
+const packed = deflateRawSync(Buffer.from(text), { level: 9 }).toString("base64");
+const source = `// Generated by scripts/build-clue-table.mjs from associations.txt. Do not edit.
+export const CLUE_TABLE = ${JSON.stringify(packed)};
+`;
+writeFileSync(path.join(dir, "table.ts"), source);
+console.log(`build-clue-table: ${clues.size} clues, ${text.length} bytes packed into ${packed.length}`);
@@ -0,0 +1,74 @@
+// Runs after `next build` (see "postbuild" in package.json). Lists every file
+// the app needs offline with a content hash and writes sw.js from
+// scripts/sw-template.js. A static export gets it in out/, a server build in
+// public/. Any changed asset changes sw.js, which is how browsers notice a
+// new version.
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const nextDir = path.join(root, ".next");
+const exportDir = path.join(root, "out");
+const publicDir = path.join(root, "public");
+const WORKER = "sw.js";
+// Routes under src/app besides the main page. A server build renders them on
+// request, so they are cached by path.
+const PAGES = ["stats"];
+
+function walk(dir) {
+  return readdirSync(dir).flatMap((name) => {
+    const full = path.join(dir, name);
+    return statSync(full).isDirectory() ? walk(full) : [full];
+  });
+}
+
+function revision(file) {
+  return createHash("sha256").update(readFileSync(file)).digest("hex").slice(0, 16);
+}
+
+// Urls are relative to the worker's scope so the same list works under any base path
+function entries(dir, prefix = "") {
+  return walk(dir).map((file) => ({
+    url: prefix + path.relative(dir, file).split(path.sep).join("/"),
+    revision: revision(file),
+  }));
+}
+
+// out/ may be left over from an earlier export; the current one embeds this build's id
+function isCurrentExport(buildId) {
+  const index = path.join(exportDir, "index.html");
+  return existsSync(index) && readFileSync(index, "utf8").includes(buildId);
+}
+
+function collectAssets(buildId, exported) {
+  if (exported) {
+    // A static export holds everything the site serves, index.html included
+    const assets = entries(exportDir).filter((a) => a.url !== WORKER && !a.url.endsWith(".map"));
+    const index = assets.find((a) => a.url === "index.html");
+    return index ? [{ url: "./", revision: index.revision }, ...assets] : assets;
+  }
+  // A server build renders the page on request; its revision is the build itself
+  return [
+    { url: "./", revision: buildId },
+    ...PAGES.map((url) => ({ url, revision: buildId })),
+    ...entries(path.join(nextDir, "static"), "_next/static/").filter((a) => !a.url.endsWith(".map")),
+    ...entries(publicDir).filter((a) => a.url !== WORKER),
+    { url: "favicon.ico", revision: revision(path.join(root, "src", "app", "favicon.ico")) },
+  ];
+}
+
+const buildIdFile = path.join(nextDir, "BUILD_ID");
+if (!existsSync(buildIdFile)) {
+  console.error("generate-sw: .next/BUILD_ID is missing. Run `next build` first.");
+  process.exit(1);
+}
+const buildId = readFileSync(buildIdFile, "utf8").trim();
+const exported = isCurrentExport(buildId);
+const assets = collectAssets(buildId, exported).sort((a, b) => a.url.localeCompare(b.url));
+const template = readFileSync(path.join(root, "scripts", "sw-template.js"), "utf8");
+const worker = template.replace("self.__SW_MANIFEST__", JSON.stringify({ buildId, assets }));
+const target = exported ? exportDir : publicDir;
+writeFileSync(path.join(target, WORKER), worker);
+console.log(`generate-sw: precaching ${assets.length} files for build ${buildId} in ${path.relative(root, path.join(target, WORKER))}`);
@@ -0,0 +1,75 @@
+// Service worker template. scripts/generate-sw.mjs fills in the manifest after
+// `next build` and writes the result to sw.js; don't register this file directly.
+
+// { buildId, assets: [{ url, revision }] }, urls relative to the worker's scope
+const MANIFEST = self.__SW_MANIFEST__;
+
+const CACHE_PREFIX = "codenames-helper-";
+const CACHE_NAME = `${CACHE_PREFIX}${MANIFEST.buildId}`;
+// Resolving against the scope keeps the worker working under a sub-path like GitHub Pages
+const SCOPE = self.registration.scope;
+const SHELL_URL = new URL("./", SCOPE).href;
+const PRECACHE = new Map(MANIFEST.assets.map((asset) => [new URL(asset.url, SCOPE).href, asset.revision]));
+
+// Next.js puts a content hash in every file name under _next/static, so a copy
+// from an older build is still valid and needn't be downloaded again
+function isImmutable(url) {
+  return url.startsWith(new URL("_next/static/", SCOPE).href);
+}
+
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all(
+    [...PRECACHE.keys()].map(async (url) => {
+      if (await cache.match(url)) return;
+      const previous = isImmutable(url) ? await caches.match(url) : undefined;
+      const response = previous ?? (await fetch(url, { cache: "reload" }));
+      if (!response.ok) throw new Error(`Precaching ${url} failed with ${response.status}`);
+      await cache.put(url, response);
+    }),
+  );
+}
+
+// The new version waits until the page asks for it, so an open game is never
+// swapped out from under the players
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache());
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Pages are precached under their path, or as .html files in a static
+// export. Anything else falls back to the main page.
+function pageFor(url) {
+  const path = url.href.replace(/\/$/, "");
+  return [url.href, `${path}.html`].find((candidate) => PRECACHE.has(candidate)) ?? SHELL_URL;
+}
+
+async function respond(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const url = new URL(request.url);
+  url.search = "";
+  const cached = await cache.match(request.mode === "navigate" ? pageFor(url) : url.href);
+  if (cached) return cached;
+  return fetch(request);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || !request.url.startsWith(SCOPE)) return;
+  const url = new URL(request.url);
+  url.search = "";
+  if (request.mode !== "navigate" && !PRECACHE.has(url.href)) return;
+  event.respondWith(respond(request));
+});
@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import StatsDashboard from "@/components/StatsDashboard";
+
+export const metadata: Metadata = {
+  title: "Statistics · Codenames Helper",
+};
+
+export default function Stats() {
+  return (
+    <div className="font-sans min-h-screen p-8 sm:p-12 flex flex-col items-center gap-8">
+      <h1 className="text-2xl sm:text-3xl font-semibold">Statistics</h1>
+      <Link href="/" className="text-sm underline underline-offset-4 opacity-80 hover:opacity-100">
+        Back to the board
+      </Link>
+      <StatsDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { CELL_SYMBOLS, DEFAULT_CELL_STYLE, cellFill, cellTextClass, type CellStyle } from "@/lib/cellStyles";
+import type { PublicBoard } from "@/lib/display";
+import { COLOR_NAMES, cellName } from "@/lib/history";
+
+type BoardDisplayProps = {
+  board: PublicBoard;
+  // Fill the screen for a TV or projector instead of fitting the page column
+  projector?: boolean;
+  cellStyle?: CellStyle;
+};
+
+export default function BoardDisplay({ board, projector = false, cellStyle = DEFAULT_CELL_STYLE }: BoardDisplayProps) {
+  // Projector cells scale with the shorter side of the screen so the whole grid always fits
+  const n = board.gridSize;
+  const cellSize = projector ? `min(calc((100vh - 8rem - ${n - 1} * 0.75rem) / ${n}), calc((100vw - 4rem - ${n - 1} * 0.75rem) / ${n}))` : undefined;
+
+  return (
+    <div className={`grid ${projector ? "gap-3" : "gap-2 sm:gap-3"}`} style={{ gridTemplateColumns: `repeat(${board.gridSize}, minmax(0, 1fr))` }}>
+      {board.colors.map((color, index) => {
+        const word = board.words[index];
+        const bgClass = color ? "" : "bg-zinc-200 dark:bg-zinc-700";
+        const textClass = color ? cellTextClass(color, board.mode, cellStyle.palette) : "text-foreground";
+        return (
+          <div
+            key={index}
+            role="img"
+            aria-label={`${word ? `${word}, ` : ""}${cellName(index, n)}, ${color ? COLOR_NAMES[color] : "hidden"}`}
+            style={{
+              ...(cellSize ? { width: cellSize, height: cellSize } : {}),
+              ...(color ? { backgroundColor: cellFill(color, board.mode, cellStyle.palette) } : {}),
+            }}
+            className={`${bgClass} ${projector ? "rounded-lg" : "w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 rounded"} relative shadow-sm border border-black/[.08] dark:border-white/[.145] flex items-center justify-center p-1`}
+          >
+            {color && cellStyle.symbols ? (
+              <span
+                aria-hidden="true"
+                className={`${word ? `absolute top-0.5 right-1 ${projector ? "text-[2.5vmin]" : "text-xs"}` : projector ? "text-[6vmin]" : "text-2xl"} leading-none ${textClass}`}
+              >
+                {CELL_SYMBOLS[color]}
+              </span>
+            ) : null}
+            {word ? (
+              <span className={`w-full truncate text-center font-semibold uppercase ${projector ? "text-[2.5vmin]" : "text-[10px] sm:text-xs"} ${textClass}`}>{word}</span>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
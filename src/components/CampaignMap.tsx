@@ -0,0 +1,159 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CAMPAIGN_LEVELS,
+  CAMPAIGN_START,
+  campaignComplete,
+  campaignLevel,
+  campaignSeed,
+  levelConfig,
+  levelRecord,
+  nextAttempt,
+  unlockedLevels,
+  type CampaignGame,
+  type CampaignResult,
+} from "@/lib/campaign";
+
+type CampaignMapProps = {
+  results: CampaignResult[];
+  // The level the open game was dealt for, while it still matches that level
+  current: CampaignGame | null;
+  onStart: (levelId: string, attempt: number) => void;
+  onReset: () => void;
+};
+
+export default function CampaignMap({ results, current, onStart, onReset }: CampaignMapProps) {
+  const [selectedId, setSelectedId] = useState<string>(current?.levelId ?? CAMPAIGN_START);
+  // Typed in to catch up with a partner; otherwise the next attempt is played
+  const [attempt, setAttempt] = useState<number | null>(null);
+  const unlocked = useMemo(() => unlockedLevels(results), [results]);
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-50";
+
+  const selected = campaignLevel(selectedId) ?? CAMPAIGN_LEVELS[0];
+  const record = levelRecord(results, selected.id);
+  const open = unlocked.has(selected.id);
+  const playAttempt = attempt ?? nextAttempt(results, selected.id);
+  const board = levelConfig(selected, playAttempt, "A");
+  const playing = current?.levelId === selected.id && current.attempt === playAttempt;
+  const routesIn = CAMPAIGN_LEVELS.filter((level) => level.neighbors.includes(selected.id)).map((level) => level.name);
+
+  function onSelect(id: string) {
+    setSelectedId(id);
+    setAttempt(null);
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center">
+      <div className="relative w-full max-w-lg aspect-[5/3] rounded border border-black/[.08] dark:border-white/[.145]">
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+          {CAMPAIGN_LEVELS.flatMap((level) =>
+            level.neighbors.map((id) => {
+              const to = campaignLevel(id);
+              if (!to) return null;
+              return (
+                <line
+                  key={`${level.id}-${id}`}
+                  x1={level.x}
+                  y1={level.y}
+                  x2={to.x}
+                  y2={to.y}
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                  strokeDasharray={unlocked.has(id) ? undefined : "4 3"}
+                  vectorEffect="non-scaling-stroke"
+                  className={unlocked.has(id) ? "opacity-40" : "opacity-20"}
+                />
+              );
+            }),
+          )}
+        </svg>
+        {CAMPAIGN_LEVELS.map((level) => {
+          const won = levelRecord(results, level.id).wins > 0;
+          const locked = !unlocked.has(level.id);
+          return (
+            <button
+              key={level.id}
+              type="button"
+              onClick={() => onSelect(level.id)}
+              aria-pressed={level.id === selected.id}
+              aria-label={`${level.name}${won ? ", won" : locked ? ", locked" : ""}`}
+              style={{ left: `${level.x}%`, top: `${level.y}%` }}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 h-7 px-2 rounded-full border text-xs font-medium whitespace-nowrap ${
+                won
+                  ? "bg-foreground text-background border-foreground"
+                  : "bg-background border-black/[.2] dark:border-white/[.3]"
+              } ${locked ? "opacity-40" : ""} ${level.id === selected.id ? "ring-2 ring-offset-1 ring-foreground/60" : ""}`}
+            >
+              {level.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {campaignComplete(results) ? <span className="text-sm font-medium">Every location is won. Replay any of them for a better score.</span> : null}
+
+      <div className="w-full max-w-lg flex flex-col gap-2 px-3 py-2 rounded border border-black/[.08] dark:border-white/[.145] text-sm">
+        <div className="flex items-center justify-between gap-3">
+          <span className="font-medium">{selected.name}</span>
+          <span className="text-xs opacity-70">
+            {selected.rules.timerTokens} timer tokens · {selected.rules.mistakesAllowed} {selected.rules.mistakesAllowed === 1 ? "mistake" : "mistakes"} allowed
+          </span>
+        </div>
+        <span className="text-xs opacity-70">
+          {board.gridSize}×{board.gridSize} grid · {board.numGood} agents and {board.numBad} assassins per side · {board.overlapGreens} shared agents
+        </span>
+        <span className="text-xs opacity-70">
+          {record.attempts === 0
+            ? "Not played yet"
+            : `Won ${record.wins} of ${record.attempts} ${record.attempts === 1 ? "attempt" : "attempts"}${
+                record.bestTurns !== null ? ` · best ${record.bestTurns} ${record.bestTurns === 1 ? "turn" : "turns"}` : ""
+              }`}
+        </span>
+        {open ? (
+          <div className="flex flex-wrap items-end justify-between gap-2">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="campaign-attempt" className="text-xs">
+                Attempt
+              </label>
+              <input
+                id="campaign-attempt"
+                type="number"
+                min={1}
+                value={playAttempt}
+                onChange={(e) => {
+                  const value = Number.parseInt(e.target.value, 10);
+                  setAttempt(Number.isFinite(value) && value >= 1 ? value : null);
+                }}
+                className="h-10 w-24 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+              />
+            </div>
+            <button type="button" onClick={() => onStart(selected.id, playAttempt)} disabled={playing} className={buttonClass}>
+              {playing ? "Playing" : `Play attempt ${playAttempt}`}
+            </button>
+          </div>
+        ) : (
+          <span className="text-xs">Win {routesIn.join(" or ")} to travel here.</span>
+        )}
+        {open ? (
+          <span className="text-xs opacity-70">
+            The board comes from the seed {campaignSeed(selected.id, playAttempt)}, so your partner gets the same one by playing the same
+            attempt on their device.
+          </span>
+        ) : null}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm("Reset the campaign? Every location but the first is locked again.")) onReset();
+        }}
+        disabled={results.length === 0}
+        className={buttonClass}
+      >
+        Reset campaign
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { cellFill, type Palette } from "@/lib/cellStyles";
+import { loadAssociations, suggestClues, type AssociationTable } from "@/lib/clues";
+import { startingTeam, type BoardConfig, type CellColor, type Team } from "@/lib/engine";
+import { isResolved, keyColor, type CellReveals } from "@/lib/game";
+
+type ClueAssistantProps = {
+  config: BoardConfig;
+  // The key card on screen, as returned by generateGrid
+  cells: CellColor[];
+  reveals: CellReveals[];
+  words: string[];
+  palette: Palette;
+};
+
+export default function ClueAssistant({ config, cells, reveals, words, palette }: ClueAssistantProps) {
+  const [table, setTable] = useState<AssociationTable | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [avoidNeutral, setAvoidNeutral] = useState<boolean>(true);
+  const [team, setTeam] = useState<Team>(() => startingTeam(config) ?? "red");
+  const toggleClass = (active: boolean) =>
+    `h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${active ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAssociations()
+      .then((t) => {
+        if (!cancelled) setTable(t);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Couldn't load the clue list.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const target: CellColor = config.mode === "duet" ? "green" : team;
+  // In Duet a card is done for this key once the partner has guessed it here
+  const done = useMemo(
+    () => reveals.map((marks) => (config.mode === "duet" ? isResolved(marks) || keyColor(marks, config.side) !== undefined : marks.length > 0)),
+    [reveals, config.mode, config.side],
+  );
+  const suggestions = useMemo(
+    () => (table ? suggestClues(table, { cells, words, done, target, avoidNeutral }) : []),
+    [table, cells, words, done, target, avoidNeutral],
+  );
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center text-sm">
+      <p className="text-center opacity-80 max-w-md">
+        One-word clues from a built-in list, with the cards each one points to. A clue is never shown if it hints at an assassin as much
+        as at its cards. Treat these as ideas: the list is small and only knows English words.
+      </p>
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        {config.mode === "classic" ? (
+          <div className="flex items-center gap-2">
+            <span>Clues for</span>
+            {(["red", "blue"] as const).map((t) => (
+              <button key={t} type="button" aria-pressed={team === t} onClick={() => setTeam(t)} className={toggleClass(team === t)}>
+                {t === "red" ? "Red" : "Blue"}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={avoidNeutral} onChange={(e) => setAvoidNeutral(e.target.checked)} />
+          <span>Stay clear of bystanders</span>
+        </label>
+      </div>
+
+      {error ? (
+        <div role="alert" className="text-red-500">
+          {error}
+        </div>
+      ) : !table ? (
+        <div className="opacity-60">Loading clues…</div>
+      ) : suggestions.length === 0 ? (
+        <div className="opacity-60">No safe clue found for the cards left.</div>
+      ) : (
+        <ol className="w-full max-w-md flex flex-col gap-2">
+          {suggestions.map((s) => (
+            <li key={s.clue} className="rounded border border-black/[.08] dark:border-white/[.145] px-3 py-2">
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="font-semibold uppercase tracking-wide">
+                  {s.clue} {s.targets.length}
+                </span>
+                {s.risk !== null ? (
+                  <span className="text-xs opacity-70 flex items-center gap-1">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: cellFill(cells[s.risk], config.mode, palette) }} />
+                    careful: {words[s.risk]}
+                  </span>
+                ) : null}
+              </div>
+              <div className="text-xs opacity-80">{s.targets.map((i) => words[i]).join(", ")}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { cellFill, type Palette } from "@/lib/cellStyles";
+import { clashesWithBoard } from "@/lib/clues";
+import type { BoardMode, Side, Team } from "@/lib/engine";
+import { cellName, clueStats, guessesLeft, hitsFor, leftoversFor, type ClueLogEntry } from "@/lib/history";
+import { clamp } from "@/lib/math";
+
+type ClueLogProps = {
+  entries: ClueLogEntry[];
+  mode: BoardMode;
+  gridSize: number;
+  words: string[];
+  palette: Palette;
+  // Who gives the next clue in Duet: the current clue giver, or the side on screen
+  side: Side;
+  // Classic team preselected for the next clue
+  team: Team | null;
+  // The game is over, so the summary replaces the form
+  finished: boolean;
+  // Clues can't be added while replaying an earlier step
+  disabled: boolean;
+  onGive: (word: string, number: number, team: Team | null) => void;
+};
+
+const MAX_CLUE_NUMBER = 9;
+
+function giverLabel(giver: Side | Team): string {
+  if (giver === "red") return "Red";
+  if (giver === "blue") return "Blue";
+  return `Side ${giver}`;
+}
+
+export default function ClueLog({ entries, mode, gridSize, words, palette, side, team, finished, disabled, onGive }: ClueLogProps) {
+  const [word, setWord] = useState<string>("");
+  const [number, setNumber] = useState<number>(1);
+  const [pickedTeam, setPickedTeam] = useState<Team>(team ?? "red");
+  const [error, setError] = useState<string | null>(null);
+  const toggleClass = (active: boolean) =>
+    `h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${active ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`;
+  const agentWord = mode === "duet" ? "agents" : "cards";
+
+  function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    const clue = word.trim();
+    if (!/^[\p{L}'-]+$/u.test(clue)) {
+      setError("A clue is a single word.");
+      return;
+    }
+    if (clashesWithBoard(clue, words)) {
+      setError("That clue is a word on the board, or part of one.");
+      return;
+    }
+    setError(null);
+    setWord("");
+    onGive(clue, number, mode === "classic" ? pickedTeam : null);
+  }
+
+  const stats = clueStats(entries);
+  const total = stats.reduce((sum, s) => ({ clues: sum.clues + s.clues, found: sum.found + s.found }), { clues: 0, found: 0 });
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center text-sm">
+      {finished ? (
+        entries.length > 0 ? (
+          <div className="w-full max-w-md rounded border border-black/[.08] dark:border-white/[.145] p-3 flex flex-col gap-1">
+            <div className="font-medium">
+              {agentWord === "agents" ? "Agents" : "Cards"} found per clue: <span className="font-mono">{(total.found / total.clues).toFixed(1)}</span>
+            </div>
+            {stats.map((s) => (
+              <div key={s.giver} className="opacity-80">
+                {giverLabel(s.giver)}: {s.found} in {s.clues} clue{s.clues === 1 ? "" : "s"} (
+                <span className="font-mono">{(s.found / s.clues).toFixed(1)}</span> per clue)
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="opacity-60">No clues were logged this game.</p>
+        )
+      ) : (
+        <form onSubmit={onSubmit} className="flex flex-col items-center gap-2">
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            {mode === "classic" ? (
+              (["red", "blue"] as const).map((t) => (
+                <button key={t} type="button" aria-pressed={pickedTeam === t} onClick={() => setPickedTeam(t)} className={toggleClass(pickedTeam === t)}>
+                  {t === "red" ? "Red" : "Blue"}
+                </button>
+              ))
+            ) : (
+              <span>Clue from side {side}</span>
+            )}
+            <input
+              value={word}
+              onChange={(e) => setWord(e.target.value)}
+              aria-label="Clue word"
+              placeholder="Clue"
+              autoComplete="off"
+              className="h-10 w-36 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            />
+            <input
+              type="number"
+              min={1}
+              max={MAX_CLUE_NUMBER}
+              value={number}
+              onChange={(e) => {
+                const parsed = Number.parseInt(e.target.value, 10);
+                if (!Number.isNaN(parsed)) setNumber(clamp(parsed, 1, MAX_CLUE_NUMBER));
+              }}
+              aria-label="Number of cards"
+              className="h-10 w-16 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            />
+            <button
+              type="submit"
+              disabled={disabled || !word.trim()}
+              className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-50"
+            >
+              Log clue
+            </button>
+          </div>
+          {error ? (
+            <div role="alert" className="text-red-500 text-center">
+              {error}
+            </div>
+          ) : null}
+          <p className="text-xs opacity-60 text-center">Cards revealed after a clue count toward it until the next clue is logged.</p>
+        </form>
+      )}
+
+      {entries.length > 0 ? (
+        <ol className="w-full max-w-md flex flex-col gap-2">
+          {entries.map((entry, i) => {
+            const latest = i === entries.length - 1;
+            const left = latest ? guessesLeft(entry, mode) : 0;
+            const leftover = latest ? 0 : leftoversFor(entry);
+            return (
+              <li key={i} className="rounded border border-black/[.08] dark:border-white/[.145] px-3 py-2 flex flex-col gap-1">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span>
+                    <span className="font-semibold uppercase tracking-wide">
+                      {entry.word} {entry.number}
+                    </span>{" "}
+                    <span className="text-xs opacity-70">{giverLabel(entry.team ?? entry.side)}</span>
+                  </span>
+                  <span className="text-xs">
+                    {hitsFor(entry)}/{entry.number} found
+                    {latest && !finished ? ` · ${left} ${mode === "classic" ? "guess" : "card"}${left === 1 ? "" : "s"} left` : ""}
+                    {leftover > 0 ? <span className="ml-1 px-1.5 rounded bg-yellow-400/30">{leftover} unclaimed</span> : null}
+                  </span>
+                </div>
+                {entry.guesses.length > 0 ? (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                    {entry.guesses.map((g, j) => (
+                      <span key={`${g.index}-${j}`} className={`flex items-center gap-1 ${g.hit ? "" : "opacity-60"}`}>
+                        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: cellFill(g.color, mode, palette) }} />
+                        {words[g.index] || cellName(g.index, gridSize)}
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+    </div>
+  );
+}
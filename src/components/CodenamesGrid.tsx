@@ -1,286 +1,833 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent, type KeyboardEvent } from "react";
+import {
+  LATEST_ALGORITHM_VERSION,
+  SUPPORTED_ALGORITHM_VERSIONS,
+  cellsUsed,
+  configDigest,
+  defaultOverlaps,
+  isSupportedAlgorithmVersion,
+  normalizeOverlaps,
+  oppositeSide,
+  overlapCounts,
+  randomSeed,
+  startingTeam,
+  validateOverlaps,
+  type BoardConfig,
+  type BoardMode,
+  type CellColor,
+  type Side,
+  type Team,
+  type WordPackRef,
+} from "@/lib/engine";
+import BoardDisplay from "@/components/BoardDisplay";
+import CampaignMap from "@/components/CampaignMap";
+import ClueAssistant from "@/components/ClueAssistant";
+import ClueLog from "@/components/ClueLog";
+import DuetPanel from "@/components/DuetPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import KeyCardExport from "@/components/KeyCardExport";
+import PeerSync, { type PeerStatus } from "@/components/PeerSync";
+import PracticePanel from "@/components/PracticePanel";
+import ProjectorScreen from "@/components/ProjectorScreen";
+import QrHandoff from "@/components/QrHandoff";
+import RelayPanel from "@/components/RelayPanel";
+import SavedGamesPanel from "@/components/SavedGamesPanel";
+import SettingsPanel from "@/components/SettingsPanel";
+import WordPackManager from "@/components/WordPackManager";
+import { toaster } from "@/components/ui/toaster";
+import { useCampaign } from "@/components/useCampaign";
+import { usePractice } from "@/components/usePractice";
+import type { CampaignGame } from "@/lib/campaign";
+import { CELL_SYMBOLS, cellFill, cellTextClass } from "@/lib/cellStyles";
+import { DISPLAY_PARAM, openDisplayChannel, publicBoard, type DisplayChannel, type PublicBoard } from "@/lib/display";
+import { downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_DUET_RULES,
+  agentTargets,
+  agentsFound,
+  canGuess,
+  duetKeys,
+  isGameOver,
+  isResolved,
+  keyColor,
+  type CellReveals,
+  type DuetRules,
+} from "@/lib/game";
+import {
+  COLOR_NAMES,
+  buildClueLog,
+  cellName,
+  describeChange,
+  recordRedo,
+  recordUndo,
+  replayHistory,
+  snapshotFor,
+  startHistory,
+  type GameAction,
+  type GameHistory,
+} from "@/lib/history";
+import { clamp } from "@/lib/math";
+import { DEFAULT_PRACTICE } from "@/lib/practice";
+import { openRelayRoom, replayRoom, type RelayConnection, type RelayRequest, type RelayStatus, type RoomEvent } from "@/lib/relay";
+import { DEFAULT_SETTINGS, applyMotion, isSettingsKey, loadSettings, newGameConfig, saveSettings, type Settings } from "@/lib/settings";
+import { buildPartnerLink, decodeConfigParams } from "@/lib/share";
+import { finishedGame, recordFinishedGame } from "@/lib/stats";
+import {
+  SYNC_PROTOCOL_VERSION,
+  adoptHistory,
+  createPeerSession,
+  headDigest,
+  isPeerSyncSupported,
+  recordSyncEvent,
+  type PeerSession,
+  type SyncMessage,
+} from "@/lib/sync";
+import {
+  dropGame,
+  emptyLibrary,
+  exportGameFile,
+  gameFileName,
+  loadGame,
+  loadLibrary,
+  newGameId,
+  parseGameFile,
+  removeGame,
+  renameGame,
+  saveGame,
+  saveLibrary,
+  upsertGame,
+  type GameFileParseResult,
+  type GameRecord,
+  type LibraryV3,
+} from "@/lib/storage";
+import { BASIC_PACK, dealWords, listCustomPacks, toPackRef, type WordMode, type WordPack } from "@/lib/words";
 
-type CellColor = "yellow" | "green" | "black";
+const INITIAL_CONFIG: BoardConfig = { algorithmVersion: LATEST_ALGORITHM_VERSION, mode: "duet", gridSize: 5, numGood: 9, numBad: 3, seed: "", side: "A", overlapGreens: 3, overlaps: defaultOverlaps(3) };
 
-type Side = "A" | "B";
-
-type BoardConfig = {
-  gridSize: number;
-  numGood: number;
-  numBad: number;
-  seed: string;
-  side: Side;
-  overlapGreens: number;
+// Counts used when switching board modes, matching the physical games
+const MODE_DEFAULTS: Record<BoardMode, { numGood: number; numBad: number }> = {
+  duet: { numGood: 9, numBad: 3 },
+  classic: { numGood: 8, numBad: 1 },
 };
 
-type PersistedStateV2 = {
-  config: BoardConfig;
-  cells: CellColor[];
-  revealed: boolean[];
-};
+type ViewRole = "spymaster" | "operative";
+
+const RELAY_URL_KEY = "codenames-helper:relay-url";
+// Builds without a relay leave this empty; players can still enter one
+const DEFAULT_RELAY_URL = process.env.NEXT_PUBLIC_RELAY_URL ?? "";
 
-type PersistedStateLegacy = {
-  cells?: CellColor[];
-  revealed?: boolean[];
-  numGood?: number;
-  numBad?: number;
-  gridSize?: number;
-  seed?: string;
+const ALGORITHM_LABELS: Record<number, string> = {
+  1: "v1 (original)",
+  2: "v2 (set assassin overlaps)",
 };
 
-const STORAGE_KEY = "codenames-helper:v1";
+// Keep version 2 Duet overlaps feasible whenever counts change
+function withFeasibleOverlaps(config: BoardConfig): BoardConfig {
+  if (config.algorithmVersion < 2 || config.mode !== "duet") return config;
+  return { ...config, ...normalizeOverlaps(overlapCounts(config)) };
+}
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
+// Boards that match can still show different words when the packs behind them differ
+function packMismatch(ours: string, theirs: string, whose: string): string | null {
+  return ours === theirs
+    ? null
+    : `Your word pack differs from ${whose} (yours is ${ours}, theirs is ${theirs}), so you'll see different words. Pick the same pack on both devices.`;
 }
 
-function shuffleArraySeeded<T>(array: T[], rnd: () => number): T[] {
-  const result = array.slice();
-  for (let i = result.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(rnd() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
+// A fresh saved game on a new seed, keeping the board settings
+function freshRecord(config: BoardConfig, wordMode: WordMode = "off"): GameRecord {
+  return { history: startHistory(snapshotFor({ ...config, seed: randomSeed() })), wordMode, words: [] };
 }
 
-function xfnv1a(str: string): number {
-  let h = 2166136261 >>> 0;
-  for (let i = 0; i < str.length; i += 1) {
-    h ^= str.charCodeAt(i);
-    h = Math.imul(h, 16777619);
+export default function CodenamesGrid() {
+  const [history, setHistory] = useState<GameHistory>(() =>
+    startHistory(
+      snapshotFor(
+        INITIAL_CONFIG,
+        Array.from({ length: 25 }, () => "yellow" as CellColor),
+      ),
+    ),
+  );
+  // Always the latest log, so events and checks from the partner never see a stale one
+  const historyRef = useRef(history);
+  const timeline = useMemo(() => replayHistory(history), [history]);
+  const current = timeline.states[timeline.states.length - 1];
+  const { config, cells, reveals, game } = current;
+  const totalCells = config.gridSize * config.gridSize;
+
+  // Step of the timeline shown instead of the live board while replaying
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const view = replayStep === null ? current : timeline.states[replayStep] ?? current;
+
+  // Seed being typed, not yet applied to the board
+  const [seedDraft, setSeedDraft] = useState<string | null>(null);
+  const [markingPartnerKey, setMarkingPartnerKey] = useState<boolean>(false);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [wordMode, setWordMode] = useState<WordMode>("off");
+  const [words, setWords] = useState<string[]>([]);
+  const [editingWords, setEditingWords] = useState<boolean>(false);
+  const [customPacks, setCustomPacks] = useState<WordPack[]>([]);
+  const [packsLoaded, setPacksLoaded] = useState<boolean>(false);
+  const [library, setLibrary] = useState<LibraryV3>(emptyLibrary);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [draggingFile, setDraggingFile] = useState<boolean>(false);
+  const [role, setRole] = useState<ViewRole>("spymaster");
+  const [projector, setProjector] = useState<boolean>(false);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const { cellStyle } = settings;
+  // The one grid cell in the tab order; arrow keys move it
+  const [focusedCell, setFocusedCell] = useState<number>(0);
+  const cellRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const [announcement, setAnnouncement] = useState<string>("");
+  // Set when this window was opened as a second screen for the spymaster window
+  const [displayWindow, setDisplayWindow] = useState<boolean>(false);
+  const [remoteBoard, setRemoteBoard] = useState<PublicBoard | null>(null);
+  const channelRef = useRef<DisplayChannel | null>(null);
+  const peerRef = useRef<PeerSession | null>(null);
+  // Actions are only exchanged once the partner's hello matched this board
+  const peerVerifiedRef = useRef<boolean>(false);
+  // The device that made the offer; its log wins when the two boards fork
+  const peerHostRef = useRef<boolean>(false);
+  // Events exchanged since pairing or the last resync
+  const peerCountsRef = useRef({ sent: 0, received: 0, awaitingResync: false });
+  const [peerStatus, setPeerStatus] = useState<PeerStatus>("idle");
+  const [peerError, setPeerError] = useState<string | null>(null);
+  const [partnerSide, setPartnerSide] = useState<Side | null>(null);
+  const relayRef = useRef<RelayConnection | null>(null);
+  // The log as it stood when this device entered the relay room; relay order is replayed on top of it
+  const roomStartRef = useRef<GameHistory>(history);
+  const [relayUrl, setRelayUrl] = useState<string>(DEFAULT_RELAY_URL);
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>("closed");
+  const [relayCode, setRelayCode] = useState<string | null>(null);
+  const [relayPeers, setRelayPeers] = useState<number>(0);
+  const [relayError, setRelayError] = useState<string | null>(null);
+  const activeId = library.activeId;
+
+  const numNeutral = useMemo(() => {
+    const remaining = totalCells - cellsUsed(config.mode, config.numGood, config.numBad);
+    return remaining >= 0 ? remaining : 0;
+  }, [totalCells, config.mode, config.numGood, config.numBad]);
+
+  const firstTeam = useMemo(() => startingTeam(config), [config]);
+  const teamAgentsLeft = useMemo(() => {
+    const left = { red: 0, blue: 0 };
+    cells.forEach((c, i) => {
+      if ((c === "red" || c === "blue") && reveals[i].length === 0) left[c] += 1;
+    });
+    return left;
+  }, [cells, reveals]);
+
+  const digest = useMemo(() => configDigest(config), [config]);
+  const overlapError = useMemo(
+    () => (config.algorithmVersion >= 2 && config.mode === "duet" ? validateOverlaps(overlapCounts(config)) : null),
+    [config],
+  );
+
+  const keys = useMemo(() => duetKeys(config), [config]);
+  const {
+    campaign,
+    setCampaign,
+    results: campaignResults,
+    level: campaignLevelNow,
+    recordResult: recordLevelResult,
+    onStartLevel,
+    onReset: onResetCampaign,
+  } = useCampaign({ config, game, onOpenLevel });
+
+  const clueLog = useMemo(() => buildClueLog(timeline), [timeline]);
+  const partnerClue = useMemo(() => {
+    if (!game || game.status !== "playing" || game.clueGiver === config.side) return null;
+    return clueLog.find((e) => e.side === game.clueGiver && e.turn === game.turn) ?? null;
+  }, [clueLog, game, config.side]);
+  const {
+    practice,
+    setPractice,
+    solo,
+    busy: botBusy,
+    stopBot,
+    onClue: onPracticeClue,
+    onBotClue,
+    onPartnerGuess,
+  } = usePractice({ config, game, given: partnerClue, replaying: replayStep !== null, dispatch });
+  const boardOver = game
+    ? isGameOver(game)
+    : config.mode === "classic" &&
+      (teamAgentsLeft.red === 0 || teamAgentsLeft.blue === 0 || cells.some((c, i) => c === "black" && reveals[i].length > 0));
+  const agentsLeft = useMemo(() => {
+    if (!game) return 0;
+    const found = agentsFound(game);
+    return [...agentTargets(keys)].filter((i) => !found.has(i)).length;
+  }, [game, keys]);
+
+  const packs = useMemo(() => [BASIC_PACK, ...customPacks], [customPacks]);
+  const packRef = config.wordPack ?? toPackRef(BASIC_PACK);
+  const activePack = useMemo(
+    () => packs.find((p) => p.id === packRef.id && p.hash === packRef.hash) ?? null,
+    [packs, packRef.id, packRef.hash],
+  );
+
+  // What this device deals from for a pack reference; its copy can differ from the one the board recorded
+  function dealtPackHash(ref: WordPackRef): string {
+    return packs.find((p) => p.id === ref.id)?.hash ?? ref.hash;
   }
-  return h >>> 0;
-}
 
-function mulberry32(a: number): () => number {
-  let t = a >>> 0;
-  return function () {
-    t += 0x6D2B79F5;
-    let r = Math.imul(t ^ (t >>> 15), 1 | t);
-    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-  };
-}
+  const packWarning = useMemo(() => {
+    if (wordMode !== "deal" || !packsLoaded || activePack) return null;
+    const sameId = packs.find((p) => p.id === packRef.id);
+    return sameId
+      ? `Your copy of "${sameId.name}" differs from the one this board was dealt from (${sameId.hash} vs ${packRef.hash}), so your words won't match your partner's.`
+      : `This board deals words from a pack you don't have (${packRef.id}). Import the same pack to see your partner's words.`;
+  }, [wordMode, packsLoaded, activePack, packs, packRef.id, packRef.hash]);
 
-function seedToRng(seed: string): () => number {
-  const h = xfnv1a(seed || "default");
-  return mulberry32(h);
-}
+  const refreshPacks = useCallback(() => {
+    listCustomPacks()
+      .then(setCustomPacks)
+      .catch(() => setCustomPacks([]))
+      .finally(() => setPacksLoaded(true));
+  }, []);
 
-function randomSeed(): string {
-  let n: number;
-  try {
-    const a = new Uint32Array(1);
-    if (typeof window !== "undefined" && window.crypto && window.crypto.getRandomValues) {
-      window.crypto.getRandomValues(a);
-      n = a[0] >>> 0;
-    } else {
-      n = Math.floor(Math.random() * 0xffffffff);
+  useEffect(() => {
+    refreshPacks();
+  }, [refreshPacks]);
+
+  const applyRecord = useCallback(
+    (record: GameRecord) => {
+      setReplayStep(null);
+      setSeedDraft(null);
+      historyRef.current = record.history;
+      setHistory(record.history);
+      setWordMode(record.wordMode);
+      setWords(record.words);
+      setPractice(record.practice ?? null);
+      setCampaign(record.campaign ?? null);
+      stopBot();
+    },
+    [setPractice, setCampaign, stopBot],
+  );
+
+  useEffect(() => {
+    // Display windows only mirror the spymaster window and never touch saved games
+    if (new URLSearchParams(window.location.search).has(DISPLAY_PARAM)) {
+      setDisplayWindow(true);
+      return;
     }
-  } catch {
-    n = Math.floor(Math.random() * 0xffffffff);
+    let stored = loadLibrary();
+    const shared = typeof window !== "undefined" ? decodeConfigParams(window.location.hash) : null;
+    if (shared) {
+      // Drop the hash so a reload resumes the saved game instead of resetting it
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+      if (shared.ok) {
+        // Shared boards get their own entry so they never overwrite a game in progress
+        const id = newGameId();
+        const record: GameRecord = { history: startHistory(snapshotFor(shared.config)), wordMode: "off", words: [] };
+        saveGame(id, record);
+        applyRecord(record);
+        setLibrary({ ...upsertGame(stored, id, record, `Shared board ${configDigest(shared.config)}`), activeId: id });
+        setIsLoaded(true);
+        return;
+      }
+      setLinkError(shared.error);
+    }
+    const saved = stored.activeId ? loadGame(stored.activeId) : null;
+    if (stored.activeId && saved) {
+      applyRecord(saved);
+      setLibrary(stored);
+      setIsLoaded(true);
+      const meta = stored.games.find((g) => g.id === stored.activeId);
+      if (meta && saved.history.entries.length > 0) toaster.create({ title: "Game restored", description: meta.name, type: "info" });
+      return;
+    }
+    if (stored.activeId) {
+      removeGame(stored.activeId);
+      stored = dropGame(stored, stored.activeId);
+    }
+    const id = newGameId();
+    const record = freshRecord(newGameConfig(loadSettings(), INITIAL_CONFIG));
+    saveGame(id, record);
+    applyRecord(record);
+    setLibrary({ ...upsertGame(stored, id, record), activeId: id });
+    setIsLoaded(true);
+  }, [applyRecord]);
+
+  // Words follow the seed and grid size only, so flipping sides keeps them.
+  // Typed-in words survive a new seed since the physical cards may stay on the table.
+  useEffect(() => {
+    if (!isLoaded) return;
+    setWords((prev) => {
+      if (wordMode === "deal") {
+        // Keep the saved deal until custom packs have loaded from IndexedDB
+        if (!packsLoaded) return prev;
+        return activePack ? dealWords(activePack.words, totalCells, config.seed) : [];
+      }
+      if (wordMode === "manual") return prev.length === totalCells ? prev : Array(totalCells).fill("");
+      return [];
+    });
+  }, [isLoaded, wordMode, packsLoaded, activePack, config.seed, totalCells]);
+
+  useEffect(() => {
+    if (!isLoaded || !activeId) return;
+    const record: GameRecord = { history, wordMode, words, ...(practice ? { practice } : {}), ...(campaign ? { campaign } : {}) };
+    saveGame(activeId, record);
+    setLibrary((l) => upsertGame(l, activeId, record));
+  }, [isLoaded, activeId, history, wordMode, words, practice, campaign]);
+
+  useEffect(() => {
+    if (isLoaded) saveLibrary(library);
+  }, [isLoaded, library]);
+
+  const liveBoard = useMemo(() => publicBoard(current, words), [current, words]);
+  const liveBoardRef = useRef(liveBoard);
+
+  useEffect(() => {
+    if (displayWindow) {
+      const channel = openDisplayChannel((message) => {
+        if (message.type === "board") setRemoteBoard(message.board);
+      });
+      channel?.post({ type: "hello" });
+      return () => channel?.close();
+    }
+    if (!isLoaded) return;
+    const channel = openDisplayChannel((message) => {
+      if (message.type === "hello") channel?.post({ type: "board", board: liveBoardRef.current });
+    });
+    channelRef.current = channel;
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [displayWindow, isLoaded]);
+
+  useEffect(() => {
+    liveBoardRef.current = liveBoard;
+    channelRef.current?.post({ type: "board", board: liveBoard });
+  }, [liveBoard]);
+
+  function onOpenDisplayWindow() {
+    window.open(`${window.location.pathname}?${DISPLAY_PARAM}=1`, "codenames-helper-display", "popup");
   }
-  const mod = n % Math.pow(36, 4);
-  return mod.toString(36).padStart(4, "0");
-}
 
-// Create a 3-letter digest of the configuration (excluding `side`)
-function configDigest(cfg: BoardConfig): string {
-  const key = `${cfg.gridSize}|${cfg.numGood}|${cfg.numBad}|${cfg.overlapGreens}|${cfg.seed}`;
-  const h = xfnv1a(key);
-  let n = h >>> 0;
-  let out = "";
-  for (let i = 0; i < 3; i += 1) {
-    out += String.fromCharCode(65 + (n % 26));
-    n = Math.floor(n / 26);
-  }
-  return out;
-}
+  // Reveals, tokens and results are read out whether they came from this device or a partner
+  const announcedRef = useRef(timeline);
+  useEffect(() => {
+    const message = describeChange(announcedRef.current, timeline);
+    announcedRef.current = timeline;
+    if (message) setAnnouncement(message);
+  }, [timeline]);
 
-function generateSideA(numGood: number, numBad: number, totalCells: number, seed: string): CellColor[] {
-  const clampedGood = clamp(numGood, 0, totalCells);
-  const clampedBad = clamp(numBad, 0, totalCells - clampedGood);
-  const numNeutral = totalCells - clampedGood - clampedBad;
+  // A Duet game that ends here, by a local or a partner's move, goes into the stats.
+  // Opening a game that was already over doesn't count it again.
+  const finishedRef = useRef(timeline);
+  useEffect(() => {
+    const before = finishedRef.current;
+    finishedRef.current = timeline;
+    if (!activeId || before.states[0] !== timeline.states[0]) return;
+    const was = before.states[before.states.length - 1].game;
+    if (was && isGameOver(was)) return;
+    const started = timeline.boardStart > 0 ? timeline.steps[timeline.boardStart - 1].entry.at : 0;
+    const gameId = `${activeId}:${started}`;
+    const result = finishedGame(gameId, timeline.states[timeline.states.length - 1], solo);
+    if (!result) return;
+    recordFinishedGame(result);
+    recordLevelResult(gameId, result);
+  }, [timeline, activeId, solo, recordLevelResult]);
 
-  const cells: CellColor[] = [];
-  for (let i = 0; i < clampedGood; i += 1) cells.push("green");
-  for (let i = 0; i < clampedBad; i += 1) cells.push("black");
-  for (let i = 0; i < numNeutral; i += 1) cells.push("yellow");
+  const hotkeyRef = useRef<(e: globalThis.KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    hotkeyRef.current = onHotkey;
+  });
+  useEffect(() => {
+    const listener = (e: globalThis.KeyboardEvent) => hotkeyRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
 
-  const rng = seedToRng(seed + "|A");
-  return shuffleArraySeeded(cells, rng);
-}
+  const localPack = dealtPackHash(packRef);
+  const localBoardRef = useRef({ digest, side: config.side, pack: localPack });
+  useEffect(() => {
+    localBoardRef.current = { digest, side: config.side, pack: localPack };
+  }, [digest, config.side, localPack]);
 
-function generateSideB(numGood: number, numBad: number, totalCells: number, seed: string, overlapGreens: number): CellColor[] {
-  const base = generateSideA(numGood, numBad, totalCells, seed);
-  let pool: CellColor[] = base.slice();
+  // Other windows, like a second screen, pick up setting changes as they happen
+  useEffect(() => {
+    setSettings(loadSettings());
+    function onStorage(e: StorageEvent) {
+      if (isSettingsKey(e.key)) setSettings(loadSettings());
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
 
-  const greenIndices: number[] = [];
-  for (let i = 0; i < base.length; i += 1) {
-    if (base[i] === "green") greenIndices.push(i);
+  useEffect(() => {
+    applyMotion(settings.motion);
+  }, [settings.motion]);
+
+  function onChangeSettings(next: Settings) {
+    setSettings(next);
+    saveSettings(next);
   }
-  const pinsToSelect = Math.min(overlapGreens, greenIndices.length);
-  const rngPins = seedToRng(seed + "|pins");
-  const pinnedIndices = shuffleArraySeeded(greenIndices, rngPins).slice(0, pinsToSelect);
-  const pinnedIndexSet = new Set(pinnedIndices);
 
-  const result: (CellColor | undefined)[] = new Array(totalCells).fill(undefined);
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(RELAY_URL_KEY);
+      if (saved !== null) setRelayUrl(saved);
+    } catch {}
+    return () => {
+      peerRef.current?.close();
+      relayRef.current?.close();
+    };
+  }, []);
+
+  function onPeerMessage(session: PeerSession, message: SyncMessage) {
+    switch (message.type) {
+      case "hello": {
+        const local = localBoardRef.current;
+        const problem =
+          message.protocol !== SYNC_PROTOCOL_VERSION
+            ? "Your partner runs a different version of the app. Reload both devices and pair again."
+            : message.digest !== local.digest
+            ? `The boards don't match (yours is ${local.digest}, your partner's is ${message.digest}). Open the same board on both devices first.`
+            : null;
+        if (problem) {
+          session.send({ type: "bye", reason: problem });
+          setPeerError(problem);
+          session.close();
+          return;
+        }
+        peerVerifiedRef.current = true;
+        peerCountsRef.current = { sent: 0, received: 0, awaitingResync: false };
+        sendHead(session);
+        setPartnerSide(message.side);
+        setPeerStatus("connected");
+        setPeerError(
+          message.side === local.side
+            ? `You both hold side ${local.side}. One of you should switch sides.`
+            : packMismatch(local.pack, message.pack, "your partner's"),
+        );
+        return;
+      }
+      case "head": {
+        const counts = peerCountsRef.current;
+        if (!peerHostRef.current || counts.awaitingResync) return;
+        // Something is still on its way, so the boards can't be compared yet
+        if (message.sent !== counts.received || message.received !== counts.sent) return;
+        if (message.digest === headDigest(historyRef.current)) return;
+        session.send({ type: "resync", history: historyRef.current });
+        peerCountsRef.current = { sent: 0, received: 0, awaitingResync: true };
+        return;
+      }
+      case "resync":
+        if (peerHostRef.current) return;
+        setReplayStep(null);
+        commitHistory(adoptHistory(message.history, localBoardRef.current.side));
+        peerCountsRef.current = { sent: 0, received: 0, awaitingResync: false };
+        session.send({ type: "resynced" });
+        setPeerError("Your board got out of step with your partner's, so it now follows theirs.");
+        return;
+      case "resynced":
+        peerCountsRef.current.awaitingResync = false;
+        return;
+      case "bye":
+        setPeerError(message.reason || "Your partner disconnected.");
+        session.close();
+        return;
+    }
+    // The joiner's events from before it took the host's log are already gone there
+    if (!peerVerifiedRef.current || peerCountsRef.current.awaitingResync) return;
+    peerCountsRef.current.received += 1;
+    applyRemoteEvents([message]);
+    sendHead(session);
+  }
 
-  for (const idx of pinnedIndices) {
-    result[idx] = "green";
-    const poolGreenIdx = pool.findIndex((c) => c === "green");
-    if (poolGreenIdx !== -1) pool.splice(poolGreenIdx, 1);
+  // Only the joiner reports its head; the host compares and resyncs
+  function sendHead(session: PeerSession) {
+    if (peerHostRef.current) return;
+    const { sent, received } = peerCountsRef.current;
+    session.send({ type: "head", sent, received, digest: headDigest(historyRef.current) });
   }
 
-  const rngPool1 = seedToRng(seed + "|pool1");
-  pool = shuffleArraySeeded(pool, rngPool1);
+  function commitHistory(next: GameHistory) {
+    historyRef.current = next;
+    setHistory(next);
+  }
+
+  function applyRemoteEvents(events: RoomEvent[]) {
+    setReplayStep(null);
+    commitHistory(events.reduce((next, event) => recordSyncEvent(next, event), historyRef.current));
+  }
 
-  for (let i = 0; i < base.length; i += 1) {
-    if (base[i] === "green" && !pinnedIndexSet.has(i)) {
-      let takeIdx = pool.findIndex((c) => c !== "green");
-      if (takeIdx === -1) takeIdx = 0;
-      const item = pool.splice(takeIdx, 1)[0];
-      result[i] = item;
+  function startPeerSession(host: boolean): PeerSession {
+    peerRef.current?.close();
+    peerVerifiedRef.current = false;
+    peerHostRef.current = host;
+    setPeerError(null);
+    setPartnerSide(null);
+    setPeerStatus("pairing");
+    const session = createPeerSession({
+      onOpen: () => session.send({ type: "hello", protocol: SYNC_PROTOCOL_VERSION, ...localBoardRef.current }),
+      onMessage: (message) => onPeerMessage(session, message),
+      onClose: () => {
+        if (peerRef.current !== session) return;
+        peerRef.current = null;
+        peerVerifiedRef.current = false;
+        setPeerStatus("idle");
+        setPartnerSide(null);
+      },
+    });
+    peerRef.current = session;
+    return session;
+  }
+
+  // Local changes go to whichever devices this one is linked to
+  function broadcast(event: RoomEvent) {
+    const session = peerRef.current;
+    if (session && peerVerifiedRef.current) {
+      session.send(event);
+      peerCountsRef.current.sent += 1;
+      sendHead(session);
     }
+    relayRef.current?.send(event);
+  }
+
+  function onDisconnectPeer() {
+    const session = peerRef.current;
+    if (!session) return;
+    session.send({ type: "bye", reason: "Your partner disconnected." });
+    session.close();
   }
 
-  const rngPool2 = seedToRng(seed + "|pool2");
-  pool = shuffleArraySeeded(pool, rngPool2);
+  function startRelay(request: RelayRequest) {
+    const url = relayUrl.trim();
+    if (!url) return;
+    relayRef.current?.close();
+    setRelayError(null);
+    setRelayCode(null);
+    setRelayPeers(0);
+    roomStartRef.current = historyRef.current;
+    relayRef.current = openRelayRoom(url, request, {
+      onStatus: setRelayStatus,
+      onRoom: (room) => {
+        setRelayCode(room.code);
+        if (room.created) return;
+        // Joiners take the other side of the creator's board
+        const base = room.base;
+        const config = { ...base.config, side: oppositeSide(base.config.side) };
+        const start = startHistory(snapshotFor(config, undefined, base.reveals, base.game));
+        roomStartRef.current = start;
+        setRelayError(packMismatch(dealtPackHash(base.config.wordPack ?? toPackRef(BASIC_PACK)), room.pack, "the room creator's"));
+        const history = room.events.reduce((next, event) => recordSyncEvent(next, event), start);
+        const record: GameRecord = { history, wordMode, words: [] };
+        const id = newGameId();
+        saveGame(id, record);
+        applyRecord(record);
+        setLibrary((l) => ({ ...upsertGame(l, id, record, `Room ${room.code}`), activeId: id }));
+      },
+      onEvents: applyRemoteEvents,
+      onRebase: (log, pending) => {
+        setReplayStep(null);
+        commitHistory(replayRoom(roomStartRef.current, log, pending));
+      },
+      onPeers: setRelayPeers,
+      onError: setRelayError,
+    });
+  }
+
+  function onLeaveRelay() {
+    relayRef.current?.close();
+    relayRef.current = null;
+    setRelayCode(null);
+  }
 
-  for (let i = 0; i < result.length; i += 1) {
-    if (result[i] === undefined) {
-      const item = pool.shift();
-      result[i] = (item ?? "yellow");
+  function onChangeRelayUrl(url: string) {
+    setRelayUrl(url);
+    try {
+      window.localStorage.setItem(RELAY_URL_KEY, url);
+    } catch {}
+  }
+
+  // The partner and the room stay on the old board, so switching games unlinks this device
+  function leaveLinkedSessions() {
+    if (peerRef.current) {
+      peerRef.current.send({ type: "bye", reason: "Your partner switched to another game." });
+      peerRef.current.close();
     }
+    if (relayRef.current) onLeaveRelay();
   }
 
-  return result as CellColor[];
-}
+  function confirmNewGame(): boolean {
+    return !settings.confirmNewGame || window.confirm("Start a new game? The current one stays in your saved games.");
+  }
 
-function generateGrid(numGood: number, numBad: number, totalCells: number, seed: string, side: Side, overlapGreens: number): CellColor[] {
-  return side === "B"
-    ? generateSideB(numGood, numBad, totalCells, seed, overlapGreens)
-    : generateSideA(numGood, numBad, totalCells, seed);
-}
+  // Saves `record` as a new game and switches to it
+  function openNewGame(record: GameRecord, name?: string) {
+    const id = newGameId();
+    saveGame(id, record);
+    leaveLinkedSessions();
+    applyRecord(record);
+    setLibrary((l) => ({ ...upsertGame(l, id, record, name), activeId: id }));
+  }
 
-function inferGridSizeFromCells(cells?: CellColor[]): number | null {
-  if (!cells || !Array.isArray(cells)) return null;
-  const length = cells.length;
-  const size = Math.sqrt(length);
-  if (Number.isInteger(size)) return size as number;
-  return null;
-}
+  function onNewGame() {
+    if (!confirmNewGame()) return;
+    openNewGame(freshRecord(newGameConfig(settings, config), wordMode));
+  }
 
-export default function CodenamesGrid() {
-  const [config, setConfig] = useState<BoardConfig>({ gridSize: 5, numGood: 9, numBad: 3, seed: "", side: "A", overlapGreens: 3 });
-  const totalCells = config.gridSize * config.gridSize;
+  // Like a shared link, a scanned board gets its own entry instead of replacing the game in progress
+  function onImportBoard(next: BoardConfig) {
+    openNewGame({ history: startHistory(snapshotFor(next)), wordMode: "off", words: [] }, `Shared board ${configDigest(next)}`);
+  }
 
-  const [cells, setCells] = useState<CellColor[]>(() => Array.from({ length: 25 }, () => "yellow" as CellColor));
-  const [revealed, setRevealed] = useState<boolean[]>(() => Array(25).fill(false));
-  const [isLoaded, setIsLoaded] = useState<boolean>(false);
-  const [skipNextRegen, setSkipNextRegen] = useState<boolean>(false);
+  // A level keeps the word mode, and solo practice if it is on
+  function onOpenLevel(levelHistory: GameHistory, levelGame: CampaignGame, name: string) {
+    if (!confirmNewGame()) return;
+    openNewGame({ history: levelHistory, wordMode, words: [], ...(solo && practice ? { practice } : {}), campaign: levelGame }, name);
+  }
 
-  const numNeutral = useMemo(() => {
-    const remaining = totalCells - config.numGood - config.numBad;
-    return remaining >= 0 ? remaining : 0;
-  }, [totalCells, config.numGood, config.numBad]);
+  function onResumeGame(id: string) {
+    const record = loadGame(id);
+    if (!record) {
+      removeGame(id);
+      setLibrary((l) => dropGame(l, id));
+      return;
+    }
+    leaveLinkedSessions();
+    applyRecord(record);
+    setLibrary((l) => ({ ...l, activeId: id }));
+  }
 
-  const digest = useMemo(() => configDigest(config), [config]);
+  function onRenameGame(id: string, name: string) {
+    setLibrary((l) => renameGame(l, id, name));
+  }
 
-  useEffect(() => {
+  function onDuplicateGame(id: string) {
+    const record = id === activeId ? { history, wordMode, words, ...(practice ? { practice } : {}), ...(campaign ? { campaign } : {}) } : loadGame(id);
+    const source = library.games.find((g) => g.id === id);
+    if (!record || !source) return;
+    const copyId = newGameId();
+    saveGame(copyId, record);
+    setLibrary((l) => upsertGame(l, copyId, record, `${source.name} (copy)`));
+    toaster.create({ title: "Game duplicated", description: `${source.name} (copy)`, type: "success" });
+  }
+
+  function onExportGame() {
+    const record: GameRecord = { history, wordMode, words, ...(practice ? { practice } : {}), ...(campaign ? { campaign } : {}) };
+    const name = library.games.find((g) => g.id === activeId)?.name ?? `Board ${digest}`;
+    const blob = new Blob([JSON.stringify(exportGameFile(record, name), null, 2)], { type: "application/json" });
+    downloadBlob(blob, gameFileName(name, record));
+  }
+
+  // Imported games get their own entry, like shared links
+  async function onImportGame(file: File) {
+    setImportError(null);
+    if (!file.name.toLowerCase().endsWith(".json") && file.type !== "application/json") {
+      setImportError(`${file.name} isn't a game file. Game files end in .json.`);
+      return;
+    }
+    let parsed: GameFileParseResult;
     try {
-      const raw = typeof window !== "undefined" ? window.localStorage.getItem(STORAGE_KEY) : null;
-      if (raw) {
-        const parsed = JSON.parse(raw) as PersistedStateV2 | PersistedStateLegacy;
-        if (parsed && (parsed as PersistedStateV2).config) {
-          const v2 = parsed as PersistedStateV2;
-          const cfg: BoardConfig = { ...v2.config, side: (v2.config as Partial<BoardConfig>).side ?? "A", overlapGreens: (v2.config as Partial<BoardConfig>).overlapGreens ?? 3 } as BoardConfig;
-          const expected = cfg.gridSize * cfg.gridSize;
-          if (Array.isArray(v2.cells) && v2.cells.length === expected && Array.isArray(v2.revealed) && v2.revealed.length === expected) {
-            setConfig(cfg);
-            setCells(v2.cells);
-            setRevealed(v2.revealed);
-            setSkipNextRegen(true);
-            setIsLoaded(true);
-            return;
-          }
-        } else {
-          const legacy = parsed as PersistedStateLegacy;
-          const savedSize = legacy.gridSize ?? inferGridSizeFromCells(legacy.cells) ?? 5;
-          const expected = savedSize * savedSize;
-          if (
-            legacy &&
-            Array.isArray(legacy.cells) && legacy.cells.length === expected &&
-            Array.isArray(legacy.revealed) && legacy.revealed.length === expected
-          ) {
-            const seed = legacy.seed ?? randomSeed();
-            const numGood = legacy.numGood ?? legacy.cells.filter((c) => c === "green").length;
-            const numBad = legacy.numBad ?? legacy.cells.filter((c) => c === "black").length;
-            setConfig({ gridSize: savedSize, numGood, numBad, seed, side: "A", overlapGreens: 3 });
-            setCells(legacy.cells);
-            setRevealed(legacy.revealed);
-            setSkipNextRegen(true);
-            setIsLoaded(true);
-            return;
-          }
-        }
-      }
-      const seed = randomSeed();
-      const initial: BoardConfig = { gridSize: 5, numGood: 9, numBad: 3, seed, side: "A", overlapGreens: 3 };
-      setConfig(initial);
-      setCells(generateGrid(initial.numGood, initial.numBad, initial.gridSize * initial.gridSize, initial.seed, initial.side, initial.overlapGreens));
-      setRevealed(Array(initial.gridSize * initial.gridSize).fill(false));
-      setSkipNextRegen(true);
-      setIsLoaded(true);
+      parsed = parseGameFile(await file.text());
     } catch {
-      const seed = randomSeed();
-      const initial: BoardConfig = { gridSize: 5, numGood: 9, numBad: 3, seed, side: "A", overlapGreens: 3 };
-      setConfig(initial);
-      setCells(generateGrid(initial.numGood, initial.numBad, initial.gridSize * initial.gridSize, initial.seed, initial.side, initial.overlapGreens));
-      setRevealed(Array(initial.gridSize * initial.gridSize).fill(false));
-      setSkipNextRegen(true);
-      setIsLoaded(true);
+      parsed = { ok: false, error: `Couldn't read ${file.name}.` };
     }
-  }, []);
-
-  useEffect(() => {
-    if (!isLoaded) return;
-    if (skipNextRegen) {
-      setSkipNextRegen(false);
+    if (!parsed.ok) {
+      setImportError(parsed.error);
       return;
     }
-    setCells(generateGrid(config.numGood, config.numBad, totalCells, config.seed || "default", config.side, config.overlapGreens));
-    setRevealed(Array(totalCells).fill(false));
-  }, [isLoaded, skipNextRegen, config, totalCells]);
+    const { name, record } = parsed;
+    const id = newGameId();
+    saveGame(id, record);
+    leaveLinkedSessions();
+    applyRecord(record);
+    setLibrary((l) => ({ ...upsertGame(l, id, record, name), activeId: id }));
+    toaster.create({ title: "Game imported", description: name, type: "success" });
+  }
 
-  useEffect(() => {
-    if (!isLoaded) return;
-    try {
-      const payload: PersistedStateV2 = { config, cells, revealed };
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  function onDragOver(e: DragEvent) {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setDraggingFile(true);
+  }
+
+  function onDrop(e: DragEvent) {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onImportGame(file);
+  }
+
+  function onDeleteGame(id: string) {
+    removeGame(id);
+    if (id !== activeId) {
+      setLibrary((l) => dropGame(l, id));
+      return;
+    }
+    // Deleting the game on screen switches to the next most recent one
+    leaveLinkedSessions();
+    const remaining = dropGame(library, id);
+    for (const g of remaining.games) {
+      const record = loadGame(g.id);
+      if (record) {
+        applyRecord(record);
+        setLibrary({ ...remaining, activeId: g.id });
+        return;
       }
-    } catch {}
-  }, [isLoaded, config, cells, revealed]);
+    }
+    const freshId = newGameId();
+    const record = freshRecord(config, wordMode);
+    saveGame(freshId, record);
+    applyRecord(record);
+    setLibrary({ ...upsertGame(remaining, freshId, record), activeId: freshId });
+  }
+
+  function dispatch(action: GameAction) {
+    setReplayStep(null);
+    commitHistory(recordSyncEvent(historyRef.current, { type: "action", action }, true));
+    broadcast({ type: "action", action });
+  }
+
+  function updateConfig(update: (c: BoardConfig) => BoardConfig) {
+    dispatch({ type: "config", config: update(config) });
+  }
+
+  function onUndo() {
+    if (timeline.steps.length === 0) return;
+    setReplayStep(null);
+    stopBot();
+    commitHistory(recordUndo(historyRef.current));
+    broadcast({ type: "undo" });
+  }
+
+  function onRedo() {
+    if (timeline.undone.length === 0) return;
+    setReplayStep(null);
+    stopBot();
+    commitHistory(recordRedo(historyRef.current));
+    broadcast({ type: "redo" });
+  }
+
+  // Largest agent count that still fits next to `numBad` assassins
+  function maxGoodFor(mode: BoardMode, numBad: number, total: number): number {
+    return mode === "classic" ? Math.max(0, Math.floor((total - 1 - numBad) / 2)) : Math.max(0, total - numBad);
+  }
 
   function onChangeGood(value: string) {
     const parsed = Number.parseInt(value, 10);
     if (Number.isNaN(parsed)) return;
     const clamped = clamp(parsed, 0, totalCells);
-    const maxGoodGivenBad = totalCells - config.numBad;
-    const nextGood = clamp(clamped, 0, maxGoodGivenBad);
-    setConfig((c) => ({ ...c, numGood: nextGood }));
+    const nextGood = clamp(clamped, 0, maxGoodFor(config.mode, config.numBad, totalCells));
+    updateConfig((c) => withFeasibleOverlaps({ ...c, numGood: nextGood }));
   }
 
   function onChangeBad(value: string) {
     const parsed = Number.parseInt(value, 10);
     if (Number.isNaN(parsed)) return;
     const clamped = clamp(parsed, 0, totalCells);
-    const maxBadGivenGood = totalCells - config.numGood;
-    const nextBad = clamp(clamped, 0, maxBadGivenGood);
-    setConfig((c) => ({ ...c, numBad: nextBad }));
+    const maxBadGivenGood = totalCells - cellsUsed(config.mode, config.numGood, 0);
+    const nextBad = clamp(clamped, 0, Math.max(0, maxBadGivenGood));
+    updateConfig((c) => withFeasibleOverlaps({ ...c, numBad: nextBad }));
   }
 
   function onChangeGridSize(value: string) {
@@ -288,43 +835,224 @@ export default function CodenamesGrid() {
     if (Number.isNaN(parsed)) return;
     const nextSize = clamp(parsed, 2, 10);
     const nextTotal = nextSize * nextSize;
-    const nextGood = clamp(config.numGood, 0, nextTotal);
-    const nextBad = clamp(config.numBad, 0, nextTotal - nextGood);
+    const nextGood = clamp(config.numGood, 0, maxGoodFor(config.mode, 0, nextTotal));
+    const nextBad = clamp(config.numBad, 0, Math.max(0, nextTotal - cellsUsed(config.mode, nextGood, 0)));
     const nextOverlap = clamp(config.overlapGreens, 0, nextGood);
-    setConfig((c) => ({ ...c, gridSize: nextSize, numGood: nextGood, numBad: nextBad, overlapGreens: nextOverlap }));
+    updateConfig((c) => withFeasibleOverlaps({ ...c, gridSize: nextSize, numGood: nextGood, numBad: nextBad, overlapGreens: nextOverlap }));
+  }
+
+  function onChangeBoardMode(value: string) {
+    const mode: BoardMode = value === "classic" ? "classic" : "duet";
+    if (mode === config.mode) return;
+    const defaults = MODE_DEFAULTS[mode];
+    const nextGood = clamp(defaults.numGood, 0, maxGoodFor(mode, 0, totalCells));
+    const nextBad = clamp(defaults.numBad, 0, Math.max(0, totalCells - cellsUsed(mode, nextGood, 0)));
+    const nextOverlap = clamp(config.overlapGreens, 0, nextGood);
+    updateConfig((c) => withFeasibleOverlaps({ ...c, mode, numGood: nextGood, numBad: nextBad, overlapGreens: nextOverlap }));
+  }
+
+  // The typed seed only becomes a new board once the field is left or Enter is pressed
+  function onCommitSeed() {
+    if (seedDraft === null) return;
+    setSeedDraft(null);
+    if (seedDraft !== config.seed) dispatch({ type: "seed", seed: seedDraft });
   }
 
-  function onSeedChange(nextSeed: string) {
-    setConfig((c) => ({ ...c, seed: nextSeed }));
+  function onSeedKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter") onCommitSeed();
+    else if (e.key === "Escape") setSeedDraft(null);
   }
 
   function onRandomizeSeed() {
-    const s = randomSeed();
-    setConfig((c) => ({ ...c, seed: s }));
+    setSeedDraft(null);
+    dispatch({ type: "seed", seed: randomSeed() });
   }
 
   function onChangeSide(nextSide: string) {
     const side = nextSide === "B" ? "B" : "A";
-    setConfig((c) => ({ ...c, side }));
+    updateConfig((c) => ({ ...c, side }));
   }
 
   function onChangeOverlap(value: string) {
     const parsed = Number.parseInt(value, 10);
     if (Number.isNaN(parsed)) return;
     const clampedVal = clamp(parsed, 0, config.numGood);
-    setConfig((c) => ({ ...c, overlapGreens: clampedVal }));
+    updateConfig((c) => withFeasibleOverlaps({ ...c, overlapGreens: clampedVal }));
   }
 
-  function toggleCell(index: number) {
-    setRevealed((prev) => {
+  function onChangeAssassinOverlap(key: "blackBlack" | "blackGreen", value: string) {
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    updateConfig((c) => {
+      const current = c.overlaps ?? defaultOverlaps(c.numBad);
+      const next = { ...current, [key]: clamp(parsed, 0, c.numBad) };
+      // Bystander overlaps absorb whatever the other two leave over
+      const other = key === "blackBlack" ? next.blackGreen : next.blackBlack;
+      next[key] = Math.min(next[key], c.numBad - other);
+      next.blackYellow = c.numBad - next.blackBlack - next.blackGreen;
+      return withFeasibleOverlaps({ ...c, overlaps: next });
+    });
+  }
+
+  function onChangeAlgorithm(value: string) {
+    const version = Number.parseInt(value, 10);
+    if (!isSupportedAlgorithmVersion(version)) return;
+    updateConfig((c) =>
+      version >= 2
+        ? withFeasibleOverlaps({ ...c, algorithmVersion: version, overlaps: c.overlaps ?? defaultOverlaps(c.numBad) })
+        : { ...c, algorithmVersion: version, overlaps: undefined },
+    );
+  }
+
+  async function onShare() {
+    const url = buildPartnerLink(config, window.location);
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ title: "Codenames Helper", text: config.mode === "classic" ? `Board ${digest}` : `Board ${digest}, side ${oppositeSide(config.side)}`, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toaster.create({ title: "Link copied", description: "It opens this board on the other side.", type: "success" });
+    } catch (err) {
+      // The user closing the share sheet is not an error worth reporting
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      toaster.create({ title: "Couldn't share the link", type: "error" });
+    }
+  }
+
+  function onChangeWordMode(value: string) {
+    const next: WordMode = value === "deal" || value === "manual" ? value : "off";
+    setWordMode(next);
+    setEditingWords(next === "manual");
+  }
+
+  function onChangePack(id: string) {
+    const pack = packs.find((p) => p.id === id);
+    if (!pack) return;
+    updateConfig((c) => ({ ...c, wordPack: pack.id === BASIC_PACK.id ? undefined : toPackRef(pack) }));
+  }
+
+  function onChangeWord(index: number, value: string) {
+    setWords((prev) => {
       const next = prev.slice();
-      next[index] = !next[index];
+      next[index] = value;
       return next;
     });
   }
 
+  function onChangePlayMode(value: string) {
+    const playing = value === "duet" || value === "practice";
+    setPractice(value === "practice" ? DEFAULT_PRACTICE : null);
+    stopBot();
+    // The computer partner reads and gives clues, so practice needs words on the cards
+    if (value === "practice" && wordMode === "off") onChangeWordMode("deal");
+    dispatch({ type: "playMode", rules: playing ? game?.rules ?? DEFAULT_DUET_RULES : null });
+  }
+
+  function onNewDuetGame(rules: DuetRules) {
+    if (!confirmNewGame()) return;
+    stopBot();
+    dispatch({ type: "playMode", rules });
+  }
+
+  function onGiveClue(word: string, number: number, team: Team | null) {
+    const side = game?.clueGiver ?? config.side;
+    dispatch({ type: "clue", word, number, side, ...(team ? { team } : {}) });
+  }
+
+  // The key card a tap is checked against in the key card viewer
+  const markKey: Side = config.mode === "duet" && markingPartnerKey ? oppositeSide(config.side) : config.side;
+
+  function toggleCell(index: number) {
+    if (replayStep !== null) return;
+    if (game) {
+      if (!canGuess(game, index)) return;
+      // Cards checked against the player's own key are the computer partner's to guess
+      if (solo && game.clueGiver === config.side) return;
+      dispatch({ type: "guess", index });
+      return;
+    }
+    const color = config.mode === "duet" ? keys[markKey][index] : cells[index];
+    dispatch({ type: "mark", index, key: markKey, color });
+  }
+
+  // U and Ctrl+Z undo, Shift+U, Ctrl+Shift+Z and Ctrl+Y redo, S flips the Duet key card.
+  // Cells reveal with Enter or Space like any other button.
+  function onHotkey(e: globalThis.KeyboardEvent) {
+    if (!isLoaded || displayWindow || e.altKey) return;
+    const target = e.target instanceof HTMLElement ? e.target : null;
+    if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+    const key = e.key.toLowerCase();
+    const modifier = e.ctrlKey || e.metaKey;
+    if ((key === "z" && modifier) || (key === "u" && !modifier)) {
+      e.preventDefault();
+      if (e.shiftKey) onRedo();
+      else onUndo();
+    } else if (key === "y" && modifier) {
+      e.preventDefault();
+      onRedo();
+    } else if (key === "s" && !modifier && config.mode === "duet" && !solo) {
+      e.preventDefault();
+      onChangeSide(oppositeSide(config.side));
+    }
+  }
+
+  function onCellKeyDown(e: KeyboardEvent<HTMLButtonElement>, index: number) {
+    const n = view.config.gridSize;
+    const row = Math.floor(index / n);
+    const col = index % n;
+    let next: number | null = null;
+    switch (e.key) {
+      case "ArrowRight":
+        next = row * n + Math.min(n - 1, col + 1);
+        break;
+      case "ArrowLeft":
+        next = row * n + Math.max(0, col - 1);
+        break;
+      case "ArrowDown":
+        next = Math.min(n - 1, row + 1) * n + col;
+        break;
+      case "ArrowUp":
+        next = Math.max(0, row - 1) * n + col;
+        break;
+      case "Home":
+        next = e.ctrlKey ? 0 : row * n;
+        break;
+      case "End":
+        next = e.ctrlKey ? n * n - 1 : row * n + n - 1;
+        break;
+    }
+    if (next === null) return;
+    e.preventDefault();
+    setFocusedCell(next);
+    cellRefs.current[next]?.focus();
+  }
+
+  function describeCell(index: number, color: CellColor, marks: CellReveals): string {
+    const { mode, gridSize, side } = view.config;
+    const key = mode === "duet" ? `${COLOR_NAMES[color]} on key ${side}` : COLOR_NAMES[color];
+    return [words[index], cellName(index, gridSize), key, describeMarks(marks)].filter(Boolean).join(", ");
+  }
+
+  function describeMarks(marks: CellReveals): string {
+    if (config.mode !== "duet") return marks.length > 0 ? "revealed" : "hidden";
+    return (["A", "B"] as const)
+      .map((side) => {
+        const seen = keyColor(marks, side);
+        return `${seen ? COLOR_NAMES[seen] : "unchecked"} for ${side}`;
+      })
+      .join(", ");
+  }
+
+  if (displayWindow) return <ProjectorScreen board={remoteBoard} cellStyle={cellStyle} />;
+
   return (
-    <div className="w-full max-w-[720px] flex flex-col gap-6 items-center">
+    <div
+      onDragOver={onDragOver}
+      onDragLeave={() => setDraggingFile(false)}
+      onDrop={onDrop}
+      className={`w-full max-w-[720px] flex flex-col gap-6 items-center rounded ${draggingFile ? "outline-dashed outline-2 outline-offset-8 outline-foreground/40" : ""}`}
+    >
       <div className="w-full flex flex-wrap gap-4 items-end justify-center">
         <div className="flex flex-col gap-1">
           <label className="text-sm">Seed</label>
@@ -332,8 +1060,10 @@ export default function CodenamesGrid() {
             <input
               type="text"
               inputMode="text"
-              value={config.seed}
-              onChange={(e) => onSeedChange(e.target.value)}
+              value={seedDraft ?? config.seed}
+              onChange={(e) => setSeedDraft(e.target.value)}
+              onBlur={onCommitSeed}
+              onKeyDown={onSeedKeyDown}
               className="w-40 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
               placeholder="e.g. game-night-1"
             />
@@ -348,36 +1078,80 @@ export default function CodenamesGrid() {
             </button>
           </div>
         </div>
-        <div className="flex flex-col gap-1">
-          <label className="text-sm">Side</label>
-          <div className="flex items-center gap-3">
-            <span className="text-xs opacity-70">A</span>
-            <input
-              type="range"
-              min={0}
-              max={1}
-              step={1}
-              value={config.side === "A" ? 0 : 1}
-              onChange={(e) => onChangeSide(e.target.value === "1" ? "B" : "A")}
-              className="w-36 h-2 accent-foreground"
-            />
-            <span className="text-xs opacity-70">B</span>
-            <div className="text-sm w-5 text-center">{config.side}</div>
+        {config.mode === "duet" ? (
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Side</label>
+            <div className="flex items-center gap-3">
+              <span className="text-xs opacity-70">A</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={1}
+                value={config.side === "A" ? 0 : 1}
+                onChange={(e) => onChangeSide(e.target.value === "1" ? "B" : "A")}
+                disabled={solo}
+                title={solo ? "The other side's key stays hidden while practicing" : undefined}
+                className="w-36 h-2 accent-foreground disabled:opacity-50"
+              />
+              <span className="text-xs opacity-70">B</span>
+              <div className="text-sm w-5 text-center">{config.side}</div>
+            </div>
           </div>
-        </div>
+        ) : null}
         <div className="flex flex-col gap-1 min-w-24">
           <label className="text-sm">Config hash</label>
           <div className="h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] flex items-center justify-center text-sm font-mono">
             {digest}
           </div>
         </div>
+        <div className="flex flex-col gap-1">
+          <span className="text-sm">Partner link</span>
+          <button
+            type="button"
+            onClick={onShare}
+            title="Share a link that opens this board on the other side"
+            className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            Share
+          </button>
+        </div>
       </div>
 
+      {linkError ? (
+        <div role="alert" className="w-full flex items-start justify-between gap-3 rounded border border-red-500/60 bg-red-500/10 px-4 py-3 text-sm">
+          <span>Couldn&apos;t open the shared board: {linkError}</span>
+          <button type="button" onClick={() => setLinkError(null)} aria-label="Dismiss" className="opacity-70 hover:opacity-100">
+            ✕
+          </button>
+        </div>
+      ) : null}
+
+      {importError ? (
+        <div role="alert" className="w-full flex items-start justify-between gap-3 rounded border border-red-500/60 bg-red-500/10 px-4 py-3 text-sm">
+          <span>Couldn&apos;t import the game: {importError}</span>
+          <button type="button" onClick={() => setImportError(null)} aria-label="Dismiss" className="opacity-70 hover:opacity-100">
+            ✕
+          </button>
+        </div>
+      ) : null}
+
       <details className="w-full">
         <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
           Options
         </summary>
         <div className="mt-4 flex flex-wrap gap-4 items-end justify-center">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Board</label>
+            <select
+              value={config.mode}
+              onChange={(e) => onChangeBoardMode(e.target.value)}
+              className="h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            >
+              <option value="duet">Duet</option>
+              <option value="classic">Classic (two teams)</option>
+            </select>
+          </div>
           <div className="flex flex-col gap-1">
             <label className="text-sm">Grid size (N×N)</label>
             <input
@@ -390,7 +1164,7 @@ export default function CodenamesGrid() {
             />
           </div>
           <div className="flex flex-col gap-1">
-            <label className="text-sm">Good (green)</label>
+            <label className="text-sm">{config.mode === "classic" ? "Agents per team" : "Good (green)"}</label>
             <input
               type="number"
               min={0}
@@ -401,7 +1175,7 @@ export default function CodenamesGrid() {
             />
           </div>
           <div className="flex flex-col gap-1">
-            <label className="text-sm">Bad (red)</label>
+            <label className="text-sm">{config.mode === "classic" ? "Assassins" : "Bad (red)"}</label>
             <input
               type="number"
               min={0}
@@ -411,57 +1185,489 @@ export default function CodenamesGrid() {
               className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
             />
           </div>
+          {config.mode === "duet" ? (
+            <div className="flex flex-col gap-1">
+              <label className="text-sm">Overlap greens (A∩B)</label>
+              <input
+                type="number"
+                min={0}
+                max={config.numGood}
+                value={config.overlapGreens}
+                onChange={(e) => onChangeOverlap(e.target.value)}
+                className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+              />
+            </div>
+          ) : null}
+          {config.mode === "duet" && config.algorithmVersion >= 2 && config.overlaps ? (
+            <>
+              <div className="flex flex-col gap-1">
+                <label className="text-sm">Assassin on both</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={config.numBad}
+                  value={config.overlaps.blackBlack}
+                  onChange={(e) => onChangeAssassinOverlap("blackBlack", e.target.value)}
+                  className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-sm">Assassin ↔ agent</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={config.numBad}
+                  value={config.overlaps.blackGreen}
+                  onChange={(e) => onChangeAssassinOverlap("blackGreen", e.target.value)}
+                  className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+                />
+              </div>
+              <div className="flex flex-col gap-1 min-w-24">
+                <span className="text-sm">Assassin ↔ neutral</span>
+                <div className="h-10 flex items-center px-3 rounded border border-dashed border-black/[.08] dark:border-white/[.145]">
+                  {config.overlaps.blackYellow}
+                </div>
+              </div>
+            </>
+          ) : null}
           <div className="flex flex-col gap-1">
-            <label className="text-sm">Overlap greens (A∩B)</label>
-            <input
-              type="number"
-              min={0}
-              max={config.numGood}
-              value={config.overlapGreens}
-              onChange={(e) => onChangeOverlap(e.target.value)}
-              className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
-            />
+            <label className="text-sm">Algorithm</label>
+            <select
+              value={config.algorithmVersion}
+              onChange={(e) => onChangeAlgorithm(e.target.value)}
+              className="h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            >
+              {SUPPORTED_ALGORITHM_VERSIONS.map((v) => (
+                <option key={v} value={v}>
+                  {ALGORITHM_LABELS[v] ?? `v${v}`}
+                </option>
+              ))}
+            </select>
           </div>
           <div className="flex flex-col gap-1 min-w-24">
-            <span className="text-sm">Neutral (yellow)</span>
+            <span className="text-sm">{config.mode === "classic" ? "Bystanders" : "Neutral (yellow)"}</span>
             <div className="h-10 flex items-center px-3 rounded border border-dashed border-black/[.08] dark:border-white/[.145]">
               {numNeutral}
             </div>
           </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Play</label>
+            <select
+              value={solo ? "practice" : game ? "duet" : "viewer"}
+              onChange={(e) => onChangePlayMode(e.target.value)}
+              className="h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            >
+              <option value="viewer">Key card only</option>
+              <option value="duet" disabled={config.mode !== "duet"}>Duet game</option>
+              <option value="practice" disabled={config.mode !== "duet"}>Solo practice</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Words</label>
+            <select
+              value={wordMode}
+              onChange={(e) => onChangeWordMode(e.target.value)}
+              className="h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            >
+              <option value="off">Off</option>
+              <option value="deal">Deal from pack</option>
+              <option value="manual">Type in from cards</option>
+            </select>
+          </div>
+          {wordMode === "deal" ? (
+            <div className="flex flex-col gap-1">
+              <label className="text-sm">Word pack</label>
+              <select
+                value={activePack?.id ?? ""}
+                onChange={(e) => onChangePack(e.target.value)}
+                className="h-10 max-w-48 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+              >
+                {activePack ? null : <option value="">Unavailable pack</option>}
+                {packs.map((p) => (
+                  <option key={p.id} value={p.id} disabled={p.words.length < totalCells}>
+                    {p.name} ({p.words.length})
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
         </div>
+        {overlapError ? <div role="alert" className="mt-3 text-sm text-center text-red-500">{overlapError}</div> : null}
+      </details>
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          Saved games
+        </summary>
+        {isLoaded ? (
+          <SavedGamesPanel
+            games={library.games}
+            activeId={activeId}
+            onNew={onNewGame}
+            onResume={onResumeGame}
+            onRename={onRenameGame}
+            onDuplicate={onDuplicateGame}
+            onDelete={onDeleteGame}
+            onExport={onExportGame}
+            onImport={onImportGame}
+          />
+        ) : null}
+      </details>
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          Campaign{campaignLevelNow && campaign ? ` · ${campaignLevelNow.name}, attempt ${campaign.attempt}` : ""}
+        </summary>
+        {isLoaded ? (
+          <CampaignMap
+            results={campaignResults}
+            current={campaignLevelNow ? campaign : null}
+            onStart={onStartLevel}
+            onReset={onResetCampaign}
+          />
+        ) : null}
+      </details>
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          Settings
+        </summary>
+        {isLoaded ? <SettingsPanel settings={settings} config={config} onChange={onChangeSettings} /> : null}
+      </details>
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          QR handoff
+        </summary>
+        {isLoaded ? <QrHandoff config={config} digest={digest} onImport={onImportBoard} /> : null}
+      </details>
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          Print key cards
+        </summary>
+        {isLoaded ? <KeyCardExport config={config} palette={cellStyle.palette} /> : null}
+      </details>
+
+      {isLoaded && isPeerSyncSupported() ? (
+        <details className="w-full">
+          <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+            Sync devices{peerStatus === "connected" ? " · connected" : ""}
+          </summary>
+          <PeerSync
+            status={peerStatus}
+            partnerSide={partnerSide}
+            error={peerError}
+            onHost={() => startPeerSession(true).createOffer()}
+            onJoin={(offer) => startPeerSession(false).acceptOffer(offer)}
+            onAnswer={async (answer) => {
+              if (!peerRef.current) throw new Error("Start pairing again.");
+              await peerRef.current.acceptAnswer(answer);
+            }}
+            onDisconnect={onDisconnectPeer}
+          />
+        </details>
+      ) : null}
+
+      {isLoaded ? (
+        <details className="w-full">
+          <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+            Remote room{relayCode ? ` · ${relayCode}` : ""}
+          </summary>
+          <RelayPanel
+            url={relayUrl}
+            status={relayStatus}
+            code={relayCode}
+            peers={relayPeers}
+            error={relayError}
+            onChangeUrl={onChangeRelayUrl}
+            onCreate={() => startRelay({ create: current, pack: localPack })}
+            onJoin={(code) => startRelay({ join: code })}
+            onLeave={onLeaveRelay}
+          />
+        </details>
+      ) : null}
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          Word packs
+        </summary>
+        <WordPackManager packs={customPacks} minWords={totalCells} onChange={refreshPacks} />
       </details>
 
+      {packWarning ? (
+        <div role="alert" className="w-full rounded border border-yellow-500/60 bg-yellow-400/10 px-4 py-3 text-sm">
+          {packWarning}
+        </div>
+      ) : null}
+
+      {isLoaded && role === "spymaster" && words.some(Boolean) ? (
+        <details className="w-full">
+          <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+            Clue ideas
+          </summary>
+          <ClueAssistant key={digest} config={view.config} cells={view.cells} reveals={view.reveals} words={words} palette={cellStyle.palette} />
+        </details>
+      ) : null}
+
+      {isLoaded && game ? (
+        <DuetPanel
+          key={`${digest}-${game.rules.timerTokens}-${game.rules.mistakesAllowed}`}
+          game={game}
+          keys={keys}
+          agentsLeft={agentsLeft}
+          onEndTurn={() => dispatch({ type: "endTurn" })}
+          onSetClueGiver={(side) => dispatch({ type: "clueGiver", side })}
+          onNewGame={onNewDuetGame}
+        />
+      ) : null}
+
+      {isLoaded && solo && game && practice ? (
+        <PracticePanel
+          practice={practice}
+          game={game}
+          keys={keys}
+          side={config.side}
+          words={words}
+          told={clueLog.filter((e) => e.side === config.side).map((e) => e.word)}
+          given={partnerClue}
+          busy={botBusy}
+          onChangeLevel={(level) => setPractice({ ...practice, level })}
+          onBotClue={onBotClue}
+          onClue={onPracticeClue}
+          onPartnerGuess={onPartnerGuess}
+          onPass={() => dispatch({ type: "endTurn" })}
+        />
+      ) : null}
+
+      {isLoaded && wordMode === "manual" ? (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setEditingWords((e) => !e)}
+            className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            {editingWords ? "Done editing" : "Edit words"}
+          </button>
+          {editingWords ? (
+            <button
+              type="button"
+              onClick={() => setWords(Array(totalCells).fill(""))}
+              className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+            >
+              Clear words
+            </button>
+          ) : null}
+          <datalist id="word-pack-options">
+            {(activePack ?? BASIC_PACK).words.map((w) => (
+              <option key={w} value={w} />
+            ))}
+          </datalist>
+        </div>
+      ) : null}
+
+      {isLoaded && !game && config.mode === "duet" ? (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Taps mark guesses on</span>
+          {([false, true] as const).map((partner) => (
+            <button
+              key={String(partner)}
+              type="button"
+              aria-pressed={markingPartnerKey === partner}
+              onClick={() => setMarkingPartnerKey(partner)}
+              className={`h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${markingPartnerKey === partner ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`}
+            >
+              {partner ? `Partner's key (${oppositeSide(config.side)})` : `My key (${config.side})`}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {isLoaded && firstTeam ? (
+        <div className="flex flex-wrap gap-4 items-center justify-center text-sm">
+          <span className="flex items-center gap-2">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: cellFill(firstTeam, "classic", cellStyle.palette) }} />
+            {firstTeam === "red" ? "Red" : "Blue"} team starts
+          </span>
+          <span>
+            Red left <span className="font-mono">{teamAgentsLeft.red}</span>
+          </span>
+          <span>
+            Blue left <span className="font-mono">{teamAgentsLeft.blue}</span>
+          </span>
+        </div>
+      ) : null}
+
+      {isLoaded ? (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span>View</span>
+          {(["spymaster", "operative"] as const).map((r) => (
+            <button
+              key={r}
+              type="button"
+              aria-pressed={role === r}
+              onClick={() => setRole(r)}
+              className={`h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${role === r ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`}
+            >
+              {r === "spymaster" ? "Spymaster" : "Operative"}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setProjector(true)}
+            title="Show the operative view full screen for a TV or projector"
+            className="h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            Projector
+          </button>
+          <button
+            type="button"
+            onClick={onOpenDisplayWindow}
+            title="Open the operative view in a window that follows this one"
+            className="h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            Second screen
+          </button>
+        </div>
+      ) : null}
+
+      {projector ? <ProjectorScreen board={liveBoard} cellStyle={cellStyle} onExit={() => setProjector(false)} /> : null}
+
+      {isLoaded ? (
+        <HistoryPanel
+          steps={timeline.steps}
+          undone={timeline.undone}
+          boardStart={timeline.boardStart}
+          replayStep={replayStep}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onReplayStep={setReplayStep}
+        />
+      ) : null}
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+      {isLoaded && role === "spymaster" && !editingWords ? (
+        <p className="text-xs opacity-60 text-center">
+          Arrow keys move between cards, Enter reveals, U undoes, Shift+U redoes{config.mode === "duet" ? ", S switches sides" : ""}.
+        </p>
+      ) : null}
+
       {!isLoaded ? (
         <div className="grid gap-2 sm:gap-3 opacity-40 select-none" style={{ gridTemplateColumns: `repeat(${config.gridSize}, minmax(0, 1fr))` }}>
           {Array.from({ length: totalCells }).map((_, i) => (
             <div key={i} className="bg-zinc-300 w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 rounded" />
           ))}
         </div>
+      ) : role === "operative" ? (
+        <BoardDisplay board={publicBoard(view, words)} cellStyle={cellStyle} />
       ) : (
-        <div className="grid gap-2 sm:gap-3" style={{ gridTemplateColumns: `repeat(${config.gridSize}, minmax(0, 1fr))` }}>
-          {cells.map((color, index) => {
-            const bgClass =
-              color === "green"
-                ? "bg-green-500"
-                : color === "black"
-                ? "bg-red-500"
-                : "bg-yellow-400";
-            const stateClass = revealed[index]
+        <div
+          role="group"
+          aria-label={`Board, ${view.config.gridSize} by ${view.config.gridSize}. Arrow keys move between cards.`}
+          className={`grid gap-2 sm:gap-3 ${firstTeam ? "p-2 sm:p-3 rounded-lg border-8" : ""}`}
+          style={{
+            gridTemplateColumns: `repeat(${view.config.gridSize}, minmax(0, 1fr))`,
+            ...(firstTeam ? { borderColor: cellFill(firstTeam, "classic", cellStyle.palette) } : {}),
+          }}
+        >
+          {view.cells.map((color, index) => {
+            const fill = { backgroundColor: cellFill(color, view.config.mode, cellStyle.palette) };
+            const textClass = cellTextClass(color, view.config.mode, cellStyle.palette);
+            const marks = view.reveals[index] ?? [];
+            const stateClass = (view.config.mode === "duet" ? isResolved(marks) : marks.length > 0)
               ? "opacity-55 ring-2 ring-white/70 dark:ring-white/40"
               : "hover:opacity-90";
 
+            const sizeClass = "w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 rounded shadow-sm border border-black/[.08] dark:border-white/[.145]";
+
+            if (editingWords) {
+              return (
+                <div key={index} style={fill} className={`${sizeClass} flex items-center p-1`}>
+                  <input
+                    type="text"
+                    list="word-pack-options"
+                    value={words[index] ?? ""}
+                    onChange={(e) => onChangeWord(index, e.target.value)}
+                    aria-label={`Word for row ${Math.floor(index / view.config.gridSize) + 1}, column ${(index % view.config.gridSize) + 1}`}
+                    className="w-full h-8 rounded bg-white/80 text-black text-xs px-1 uppercase"
+                  />
+                </div>
+              );
+            }
+
             return (
               <button
                 key={index}
+                ref={(el) => {
+                  cellRefs.current[index] = el;
+                }}
                 type="button"
-                aria-pressed={revealed[index]}
+                tabIndex={index === Math.min(focusedCell, totalCells - 1) ? 0 : -1}
+                aria-label={describeCell(index, color, marks)}
+                aria-pressed={marks.length > 0}
+                // Still focusable so arrow keys don't skip over guessed cards
+                aria-disabled={game ? !canGuess(game, index) : false}
                 onClick={() => toggleCell(index)}
-                className={`${bgClass} ${stateClass} w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 rounded shadow-sm border border-black/[.08] dark:border-white/[.145] transition`}
-              />
+                onKeyDown={(e) => onCellKeyDown(e, index)}
+                onFocus={() => setFocusedCell(index)}
+                title={describeMarks(marks)}
+                style={fill}
+                className={`${stateClass} ${sizeClass} relative transition flex items-center justify-center p-1`}
+              >
+                {view.config.mode === "duet"
+                  ? (["A", "B"] as const).map((side) => {
+                      const seen = keyColor(marks, side);
+                      if (!seen) return null;
+                      return (
+                        <span
+                          key={side}
+                          className={`absolute top-0.5 ${side === "A" ? "left-0.5" : "right-0.5"} min-w-4 h-4 px-0.5 rounded-sm text-[9px] leading-4 font-bold border border-black/40 ${cellTextClass(seen, view.config.mode, cellStyle.palette)}`}
+                          style={{ backgroundColor: cellFill(seen, view.config.mode, cellStyle.palette) }}
+                        >
+                          {side}
+                        </span>
+                      );
+                    })
+                  : null}
+                {cellStyle.symbols ? (
+                  <span
+                    aria-hidden="true"
+                    className={`${words[index] ? "absolute bottom-0.5 right-1 text-xs" : "text-2xl"} leading-none ${textClass}`}
+                  >
+                    {CELL_SYMBOLS[color]}
+                  </span>
+                ) : null}
+                {words[index] ? (
+                  <span className={`w-full truncate text-[10px] sm:text-xs font-semibold uppercase ${textClass}`}>{words[index]}</span>
+                ) : null}
+              </button>
             );
           })}
         </div>
       )}
+
+      {isLoaded ? (
+        <details className="w-full">
+          <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+            Clue log{clueLog.length > 0 ? ` · ${clueLog.length}` : ""}
+          </summary>
+          <ClueLog
+            key={digest}
+            entries={clueLog}
+            mode={config.mode}
+            gridSize={config.gridSize}
+            words={words}
+            palette={cellStyle.palette}
+            side={game?.clueGiver ?? config.side}
+            team={firstTeam}
+            finished={boardOver}
+            disabled={replayStep !== null || (solo && !boardOver)}
+            onGive={onGiveClue}
+          />
+        </details>
+      ) : null}
     </div>
   );
 } 
\ No newline at end of file
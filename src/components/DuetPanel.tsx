@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import type { Side } from "@/lib/engine";
+import { remainingAgentsFor, type DuetGame, type DuetKeys, type DuetRules } from "@/lib/game";
+import { clamp } from "@/lib/math";
+
+type DuetPanelProps = {
+  game: DuetGame;
+  keys: DuetKeys;
+  agentsLeft: number;
+  onEndTurn: () => void;
+  onSetClueGiver: (side: Side) => void;
+  onNewGame: (rules: DuetRules) => void;
+};
+
+const LOSS_MESSAGES = {
+  assassin: "An assassin was revealed.",
+  mistakes: "Too many mistakes.",
+  suddenDeath: "A bystander was hit during sudden death.",
+} as const;
+
+export default function DuetPanel({ game, keys, agentsLeft, onEndTurn, onSetClueGiver, onNewGame }: DuetPanelProps) {
+  const [rules, setRules] = useState<DuetRules>(game.rules);
+  const canPickSide = game.status === "suddenDeath" || (game.turn === 1 && game.guesses.length === 0 && game.status === "playing");
+
+  function onChangeRule(key: keyof DuetRules, value: string) {
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    setRules((r) => ({ ...r, [key]: clamp(parsed, 0, 25) }));
+  }
+
+  let headline: string;
+  if (game.status === "won") headline = `You won in ${game.turn} turn${game.turn === 1 ? "" : "s"}!`;
+  else if (game.status === "lost") headline = `Game over. ${game.lossReason ? LOSS_MESSAGES[game.lossReason] : ""}`;
+  else if (game.status === "suddenDeath") headline = "Sudden death: no more clues, any bystander loses.";
+  else headline = `Turn ${game.turn}: side ${game.clueGiver} gives the clue`;
+
+  return (
+    <div className="w-full flex flex-col gap-3 items-center rounded border border-black/[.08] dark:border-white/[.145] p-4">
+      <div
+        role="status"
+        className={`text-sm font-medium text-center ${game.status === "won" ? "text-green-600" : game.status === "lost" ? "text-red-500" : ""}`}
+      >
+        {headline}
+      </div>
+      <div className="flex flex-wrap gap-4 items-center justify-center text-sm">
+        <span>
+          Timer tokens <span className="font-mono">{game.tokensLeft}</span>/{game.rules.timerTokens}
+        </span>
+        <span>
+          Mistakes <span className="font-mono">{game.mistakes}</span>/{game.rules.mistakesAllowed}
+        </span>
+        <span>
+          Agents left <span className="font-mono">{agentsLeft}</span>
+        </span>
+        <span className="opacity-70">
+          A: {remainingAgentsFor(game, keys, "A")} · B: {remainingAgentsFor(game, keys, "B")}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2 items-center justify-center">
+        {canPickSide ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span>{game.status === "suddenDeath" ? "Guessing on key" : "First clue from"}</span>
+            {(["A", "B"] as const).map((side) => (
+              <button
+                key={side}
+                type="button"
+                aria-pressed={game.clueGiver === side}
+                onClick={() => onSetClueGiver(side)}
+                className={`h-10 w-10 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${game.clueGiver === side ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`}
+              >
+                {side}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        {game.status === "playing" ? (
+          <button
+            type="button"
+            onClick={onEndTurn}
+            className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            End turn
+          </button>
+        ) : null}
+      </div>
+      <details className="text-sm">
+        <summary className="cursor-pointer select-none text-center">New game</summary>
+        <div className="mt-3 flex flex-wrap gap-4 items-end justify-center">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Timer tokens</label>
+            <input
+              type="number"
+              min={0}
+              max={25}
+              value={rules.timerTokens}
+              onChange={(e) => onChangeRule("timerTokens", e.target.value)}
+              className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm">Mistakes allowed</label>
+            <input
+              type="number"
+              min={0}
+              max={25}
+              value={rules.mistakesAllowed}
+              onChange={(e) => onChangeRule("mistakesAllowed", e.target.value)}
+              className="w-24 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onNewGame(rules)}
+            className="h-10 px-4 rounded bg-foreground text-background text-sm font-medium hover:opacity-90"
+          >
+            Restart
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import type { TimelineStep } from "@/lib/history";
+
+type HistoryPanelProps = {
+  steps: TimelineStep[];
+  undone: TimelineStep[];
+  boardStart: number;
+  replayStep: number | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onReplayStep: (step: number | null) => void;
+};
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function HistoryPanel({ steps, undone, boardStart, replayStep, onUndo, onRedo, onReplayStep }: HistoryPanelProps) {
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-40 disabled:pointer-events-none";
+  const replaying = replayStep !== null;
+  const lastStep = steps.length;
+
+  return (
+    <div className="w-full flex flex-col gap-3 items-center">
+      <div className="flex flex-wrap gap-2 items-center justify-center">
+        {replaying ? (
+          <>
+            <button type="button" onClick={() => onReplayStep(Math.max(boardStart, replayStep - 1))} disabled={replayStep <= boardStart} className={buttonClass}>
+              ← Back
+            </button>
+            <span role="status" className="text-sm min-w-32 text-center">
+              Step {replayStep - boardStart} of {lastStep - boardStart}
+            </span>
+            <button type="button" onClick={() => onReplayStep(Math.min(lastStep, replayStep + 1))} disabled={replayStep >= lastStep} className={buttonClass}>
+              Next →
+            </button>
+            <button type="button" onClick={() => onReplayStep(null)} className={buttonClass}>
+              Exit replay
+            </button>
+          </>
+        ) : (
+          <>
+            <button type="button" onClick={onUndo} disabled={steps.length === 0} className={buttonClass}>
+              Undo
+            </button>
+            <button type="button" onClick={onRedo} disabled={undone.length === 0} className={buttonClass}>
+              Redo
+            </button>
+            <button type="button" onClick={() => onReplayStep(boardStart)} disabled={lastStep <= boardStart} className={buttonClass}>
+              Replay game
+            </button>
+          </>
+        )}
+      </div>
+      {replaying && replayStep > boardStart ? (
+        <div className="text-sm opacity-80 text-center">{steps[replayStep - 1].description}</div>
+      ) : null}
+
+      <details className="w-full">
+        <summary className="cursor-pointer select-none h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] inline-flex items-center justify-between text-sm font-medium">
+          History ({steps.length})
+        </summary>
+        <ol className="mt-3 max-h-64 overflow-y-auto flex flex-col gap-1 text-sm">
+          {undone.map((step, i) => (
+            <li key={`undone-${i}`} className="flex justify-between gap-3 px-3 opacity-40 line-through">
+              <span>{step.description}</span>
+              <span className="font-mono text-xs">{formatTime(step.entry.at)}</span>
+            </li>
+          ))}
+          {steps
+            .map((step, i) => ({ step, number: i + 1 }))
+            .reverse()
+            .map(({ step, number }) => (
+              <li
+                key={number}
+                className={`flex justify-between gap-3 px-3 rounded ${replayStep === number ? "bg-black/[.06] dark:bg-white/[.08]" : ""} ${step.resetsBoard ? "border-t border-black/[.08] dark:border-white/[.145] pt-1" : ""}`}
+              >
+                <button type="button" onClick={() => onReplayStep(number)} className="text-left hover:underline">
+                  {number}. {step.description}
+                </button>
+                <span className="font-mono text-xs opacity-70">{formatTime(step.entry.at)}</span>
+              </li>
+            ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Palette } from "@/lib/cellStyles";
+import type { BoardConfig } from "@/lib/engine";
+import { downloadBlob } from "@/lib/download";
+import {
+  MAX_BATCH_SEEDS,
+  SHEET_HEIGHT_MM,
+  SHEET_WIDTH_MM,
+  cardsForSeeds,
+  consecutiveSeeds,
+  drawingToPdf,
+  drawingToSvg,
+  sheetDrawing,
+  svgToPngBlob,
+} from "@/lib/keycard";
+import { clamp } from "@/lib/math";
+
+type KeyCardExportProps = {
+  config: BoardConfig;
+  palette: Palette;
+};
+
+function sheetFileName(seeds: string[], extension: string): string {
+  const name = seeds.length > 1 ? `${seeds[0]}-to-${seeds[seeds.length - 1]}` : seeds[0];
+  const safe = name.replace(/[^a-z0-9-_]+/gi, "-").replace(/^-+|-+$/g, "") || "board";
+  return `key-cards-${safe}.${extension}`;
+}
+
+export default function KeyCardExport({ config, palette }: KeyCardExportProps) {
+  const [count, setCount] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]";
+
+  const seeds = useMemo(() => consecutiveSeeds(config.seed, count), [config.seed, count]);
+  const drawing = useMemo(() => sheetDrawing(cardsForSeeds(config, seeds), palette), [config, seeds, palette]);
+  const svg = useMemo(() => drawingToSvg(drawing), [drawing]);
+
+  async function onPng() {
+    setError(null);
+    try {
+      downloadBlob(await svgToPngBlob(svg, SHEET_WIDTH_MM, SHEET_HEIGHT_MM), sheetFileName(seeds, "png"));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't create the PNG.");
+    }
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center">
+      <p className="text-sm text-center opacity-80 max-w-md">
+        {config.mode === "duet"
+          ? "Prints sides A and B of each board on one A4 sheet."
+          : "Prints the key card of each board on one A4 sheet."}{" "}
+        Symbols mark every color so the cards read in black and white. Hold each card with the arrow pointing away from you.
+      </p>
+      <label className="flex items-center gap-2 text-sm">
+        <span>Consecutive seeds</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_BATCH_SEEDS}
+          value={count}
+          onChange={(e) => setCount(clamp(Number.parseInt(e.target.value, 10) || 1, 1, MAX_BATCH_SEEDS))}
+          className="h-10 w-20 px-3 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent"
+        />
+      </label>
+      <div className="text-xs opacity-70 text-center break-all">{seeds.join(", ")}</div>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          type="button"
+          className={buttonClass}
+          onClick={() => downloadBlob(new Blob([svg], { type: "image/svg+xml" }), sheetFileName(seeds, "svg"))}
+        >
+          Download SVG
+        </button>
+        <button type="button" className={buttonClass} onClick={onPng}>
+          Download PNG
+        </button>
+        <button
+          type="button"
+          className={buttonClass}
+          onClick={() => downloadBlob(new Blob([drawingToPdf(drawing)], { type: "application/pdf" }), sheetFileName(seeds, "pdf"))}
+        >
+          Download PDF
+        </button>
+      </div>
+      {error ? <div role="alert" className="text-sm text-red-500">{error}</div> : null}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+        alt="Key card sheet preview"
+        className="w-full max-w-sm rounded border border-black/[.08] dark:border-white/[.145] bg-white"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QrReader from "@/components/QrReader";
+import type { Side } from "@/lib/engine";
+import { renderQrDataUrl } from "@/lib/qr";
+
+export type PeerStatus = "idle" | "pairing" | "connected";
+
+type PeerSyncProps = {
+  status: PeerStatus;
+  partnerSide: Side | null;
+  error: string | null;
+  // Host: start pairing and get the offer for the partner
+  onHost: () => Promise<string>;
+  // Guest: take the host's offer and get the answer to send back
+  onJoin: (offer: string) => Promise<string>;
+  // Host: finish pairing with the guest's answer
+  onAnswer: (answer: string) => Promise<void>;
+  onDisconnect: () => void;
+};
+
+type Step = "choose" | "host" | "join";
+
+export default function PeerSync({ status, partnerSide, error, onHost, onJoin, onAnswer, onDisconnect }: PeerSyncProps) {
+  const [step, setStep] = useState<Step>("choose");
+  // The offer or answer this device hands to its partner
+  const [signal, setSignal] = useState<string | null>(null);
+  const [signalQr, setSignalQr] = useState<string | null>(null);
+  const [input, setInput] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-40 disabled:pointer-events-none";
+
+  useEffect(() => {
+    if (!signal) {
+      setSignalQr(null);
+      return;
+    }
+    let cancelled = false;
+    renderQrDataUrl(signal)
+      .then((url) => {
+        if (!cancelled) setSignalQr(url);
+      })
+      .catch(() => {
+        // Too long for a QR code; copy and paste still works
+        if (!cancelled) setSignalQr(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [signal]);
+
+  function reset() {
+    setStep("choose");
+    setSignal(null);
+    setInput("");
+  }
+
+  useEffect(() => {
+    if (status !== "pairing") reset();
+  }, [status]);
+
+  async function run(task: () => Promise<void>) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await task();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Pairing failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onStartHost() {
+    setStep("host");
+    void run(async () => setSignal(await onHost()));
+  }
+
+  function onStartJoin() {
+    setStep("join");
+    setSignal(null);
+  }
+
+  function onSubmit(text: string) {
+    if (!text.trim()) return;
+    void run(async () => {
+      if (step === "host") {
+        await onAnswer(text);
+        setMessage("Connecting…");
+      } else {
+        setSignal(await onJoin(text));
+      }
+    });
+  }
+
+  function onCancel() {
+    reset();
+    setMessage(null);
+    onDisconnect();
+  }
+
+  async function onCopy() {
+    if (!signal) return;
+    try {
+      await navigator.clipboard.writeText(signal);
+      setMessage("Copied.");
+    } catch {
+      setMessage("Couldn't copy. Select the text and copy it manually.");
+    }
+  }
+
+  // The host pastes an answer after sharing its offer; the guest pastes the offer first
+  const waitingForInput = step === "host" ? signal !== null : signal === null;
+
+  if (status === "connected") {
+    return (
+      <div className="mt-4 flex flex-col gap-3 items-center text-sm">
+        <span role="status">Synced with your partner{partnerSide ? ` (side ${partnerSide})` : ""}. Reveals, turns and board changes now go both ways.</span>
+        {error ? <span className="text-yellow-600 dark:text-yellow-400">{error}</span> : null}
+        <button type="button" onClick={onDisconnect} className={buttonClass}>
+          Disconnect
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center text-sm">
+      {error ? (
+        <div role="alert" className="text-red-500 text-center">
+          {error}
+        </div>
+      ) : null}
+      {step === "choose" ? (
+        <>
+          <span className="opacity-70 text-center max-w-md">
+            Pair two devices on the same network, no server needed. Both must show the same board; each keeps its own side.
+          </span>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={onStartHost} className={buttonClass}>
+              Start pairing
+            </button>
+            <button type="button" onClick={onStartJoin} className={buttonClass}>
+              Join partner
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {signal ? (
+            <div className="flex flex-col gap-2 items-center">
+              <span>{step === "host" ? "1. Give this offer to your partner" : "2. Give this answer back to your partner"}</span>
+              {signalQr ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={signalQr} alt="Pairing code" width={240} height={240} className="rounded bg-white" />
+              ) : null}
+              <textarea readOnly value={signal} rows={3} onFocus={(e) => e.target.select()} className="w-full max-w-md rounded border border-black/[.08] dark:border-white/[.145] bg-transparent p-2 font-mono text-xs" />
+              <button type="button" onClick={onCopy} className={buttonClass}>
+                Copy
+              </button>
+            </div>
+          ) : null}
+          {waitingForInput ? (
+            <div className="flex flex-col gap-2 items-center w-full">
+              <span>{step === "host" ? "2. Paste or scan their answer" : "1. Paste or scan your partner's offer"}</span>
+              <textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                rows={3}
+                placeholder="CHSYNC1:…"
+                className="w-full max-w-md rounded border border-black/[.08] dark:border-white/[.145] bg-transparent p-2 font-mono text-xs"
+              />
+              <button type="button" disabled={busy || !input.trim()} onClick={() => onSubmit(input)} className={buttonClass}>
+                Connect
+              </button>
+              <QrReader onDecoded={(text) => (text ? onSubmit(text) : setMessage("No QR code found."))} onError={setMessage} />
+            </div>
+          ) : null}
+          {step === "join" && signal ? <span className="opacity-70">Waiting for your partner to connect…</span> : null}
+          {busy ? <span className="opacity-70">Working…</span> : null}
+          <button type="button" onClick={onCancel} className={buttonClass}>
+            Cancel
+          </button>
+        </>
+      )}
+      {message ? (
+        <div role="status" className="text-xs opacity-80 text-center">
+          {message}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useMemo, useState, type FormEvent, type ReactNode } from "react";
+import { clashesWithBoard, loadAssociations, type AssociationTable } from "@/lib/clues";
+import { oppositeSide, type Side } from "@/lib/engine";
+import { isGameOver, type DuetGame, type DuetKeys } from "@/lib/game";
+import { clamp } from "@/lib/math";
+import { PRACTICE_LEVELS, botClue, botGuesses, isPracticeLevel, rankGuesses, type BotClue, type PracticeLevel, type PracticeSetup } from "@/lib/practice";
+
+type PracticePanelProps = {
+  practice: PracticeSetup;
+  game: DuetGame;
+  keys: DuetKeys;
+  // The player's side; the computer plays the other one
+  side: Side;
+  words: string[];
+  // The player's clues so far on this board
+  told: string[];
+  // The computer's clue for this turn once it is in the clue log. It stays
+  // put while the player guesses, even if a better clue turns up.
+  given: { word: string; number: number } | null;
+  // True while the computer is working through its guesses
+  busy: boolean;
+  onChangeLevel: (level: PracticeLevel) => void;
+  onBotClue: (clue: BotClue) => void;
+  onClue: (word: string, number: number, guesses: number[]) => void;
+  onPartnerGuess: (index: number) => void;
+  onPass: () => void;
+};
+
+const MAX_CLUE_NUMBER = 9;
+
+export default function PracticePanel({
+  practice,
+  game,
+  keys,
+  side,
+  words,
+  told,
+  given,
+  busy,
+  onChangeLevel,
+  onBotClue,
+  onClue,
+  onPartnerGuess,
+  onPass,
+}: PracticePanelProps) {
+  const [table, setTable] = useState<AssociationTable | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [clueWord, setClueWord] = useState<string>("");
+  const [clueNumber, setClueNumber] = useState<number>(1);
+  const [clueError, setClueError] = useState<string | null>(null);
+  const partner = oppositeSide(side);
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-50";
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAssociations()
+      .then((t) => {
+        if (!cancelled) setTable(t);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError("Couldn't load the computer partner's word list.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const { maxTargets } = PRACTICE_LEVELS[practice.level];
+  const fresh = useMemo(
+    () => (table && !given ? botClue(table, words, keys, game, partner, maxTargets) : null),
+    [table, given, words, keys, game, partner, maxTargets],
+  );
+  const clue = given ?? fresh;
+
+  useEffect(() => {
+    if (fresh) onBotClue(fresh);
+  }, [fresh, onBotClue]);
+
+  function onSubmitClue(e: FormEvent) {
+    e.preventDefault();
+    if (!table) return;
+    const word = clueWord.trim();
+    if (!/^[\p{L}'-]+$/u.test(word)) {
+      setClueError("Give a single word.");
+      return;
+    }
+    if (clashesWithBoard(word, words)) {
+      setClueError("That clue is a word on the board, or part of one.");
+      return;
+    }
+    const guesses = botGuesses(table, words, game, word, clueNumber);
+    // Nothing is spent: a partner who doesn't know the word would ask for another
+    if (guesses.length === 0) {
+      setClueError(`Your partner can't link "${word}" to any card. Try another clue.`);
+      return;
+    }
+    setClueError(null);
+    setClueWord("");
+    onClue(word, clueNumber, guesses);
+  }
+
+  // Sudden death has no clues, so the partner goes by everything it was told before
+  function onSuddenDeathGuess() {
+    if (!table) return;
+    const [best] = rankGuesses(table, words, { ...game, clueGiver: side }, told);
+    if (best) onPartnerGuess(best.index);
+  }
+
+  let body: ReactNode;
+  if (loadError) {
+    body = (
+      <div role="alert" className="text-red-500">
+        {loadError}
+      </div>
+    );
+  } else if (!table) {
+    body = <div className="opacity-60">Loading…</div>;
+  } else if (words.every((w) => !w)) {
+    body = <div className="opacity-80">Turn words on to practice: the computer needs them to give and read clues.</div>;
+  } else if (isGameOver(game)) {
+    body = <div className="opacity-80">Start a new game from the panel above to practice again.</div>;
+  } else if (busy) {
+    body = <div className="opacity-80">Your partner is guessing…</div>;
+  } else if (game.status === "suddenDeath") {
+    body = (
+      <div className="flex flex-col items-center gap-2">
+        <span className="opacity-80">Guess a card on your partner&apos;s key, or let your partner guess on yours.</span>
+        <button type="button" onClick={onSuddenDeathGuess} className={buttonClass}>
+          Partner guesses
+        </button>
+      </div>
+    );
+  } else if (game.clueGiver === partner) {
+    body = clue ? (
+      <div className="flex flex-col items-center gap-1">
+        <span className="opacity-80">Your partner says</span>
+        <span className="text-lg font-semibold uppercase tracking-wide">
+          {clue.word} {clue.number}
+        </span>
+        <span className="text-xs opacity-70">Tap cards to guess, then end the turn when you want to stop.</span>
+      </div>
+    ) : (
+      <div className="flex flex-col items-center gap-2">
+        <span className="opacity-80">Your partner can&apos;t think of a clue for the cards left.</span>
+        <button type="button" onClick={onPass} className={buttonClass}>
+          Let them pass
+        </button>
+      </div>
+    );
+  } else {
+    body = (
+      <form onSubmit={onSubmitClue} className="flex flex-col items-center gap-2">
+        <span className="opacity-80">Give your partner a clue for the agents on your key.</span>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <input
+            value={clueWord}
+            onChange={(e) => setClueWord(e.target.value)}
+            aria-label="Clue word"
+            placeholder="Clue"
+            autoComplete="off"
+            className="h-10 w-40 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+          />
+          <input
+            type="number"
+            min={1}
+            max={MAX_CLUE_NUMBER}
+            value={clueNumber}
+            onChange={(e) => {
+              const parsed = Number.parseInt(e.target.value, 10);
+              if (!Number.isNaN(parsed)) setClueNumber(clamp(parsed, 1, MAX_CLUE_NUMBER));
+            }}
+            aria-label="Number of cards"
+            className="h-10 w-16 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3"
+          />
+          <button type="submit" disabled={!clueWord.trim()} className={buttonClass}>
+            Give clue
+          </button>
+        </div>
+        {clueError ? <div role="alert" className="text-red-500 text-center">{clueError}</div> : null}
+      </form>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-3 items-center rounded border border-black/[.08] dark:border-white/[.145] p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="font-medium">Solo practice</span>
+        <span className="opacity-70">
+          You play side {side}, the computer plays {partner}.
+        </span>
+      </div>
+      <label className="flex items-center gap-2">
+        <span>Partner&apos;s clues</span>
+        <select
+          value={practice.level}
+          onChange={(e) => {
+            if (isPracticeLevel(e.target.value)) onChangeLevel(e.target.value);
+          }}
+          className="h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent"
+        >
+          {Object.entries(PRACTICE_LEVELS).map(([id, level]) => (
+            <option key={id} value={id}>
+              {level.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div aria-live="polite">{body}</div>
+    </div>
+  );
+}
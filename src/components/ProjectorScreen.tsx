@@ -0,0 +1,48 @@
+"use client";
+
+import BoardDisplay from "@/components/BoardDisplay";
+import type { CellStyle } from "@/lib/cellStyles";
+import type { PublicBoard } from "@/lib/display";
+
+type ProjectorScreenProps = {
+  board: PublicBoard | null;
+  cellStyle: CellStyle;
+  // Missing in a display window, which is closed like any other window
+  onExit?: () => void;
+};
+
+export default function ProjectorScreen({ board, cellStyle, onExit }: ProjectorScreenProps) {
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]";
+
+  function onFullScreen() {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background text-foreground flex flex-col items-center justify-center gap-6 p-8">
+      {board ? (
+        <BoardDisplay board={board} cellStyle={cellStyle} projector />
+      ) : (
+        <div role="status" className="text-lg opacity-70">
+          Waiting for the spymaster window…
+        </div>
+      )}
+      <div className="flex items-center gap-3 opacity-60 hover:opacity-100 transition">
+        {board ? <span className="text-sm font-mono">{board.digest}</span> : null}
+        <button type="button" onClick={onFullScreen} className={buttonClass}>
+          Full screen
+        </button>
+        {onExit ? (
+          <button type="button" onClick={onExit} className={buttonClass}>
+            Exit projector
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+
+// The folder the app is served from, like "/" or "/codenames-helper/" on
+// GitHub Pages, read off the Next.js scripts since they always carry the base path
+function deploymentBase(): string {
+  const script = document.querySelector<HTMLScriptElement>('script[src*="/_next/static/"]');
+  if (!script) return "/";
+  const { pathname } = new URL(script.src);
+  return pathname.slice(0, pathname.indexOf("/_next/static/") + 1);
+}
 
 export default function PwaRegister() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
   useEffect(() => {
+    // sw.js only exists after a production build
     if (
       typeof window === "undefined" ||
-      !("serviceWorker" in navigator)
+      !("serviceWorker" in navigator) ||
+      process.env.NODE_ENV !== "production"
     ) {
       return;
     }
@@ -16,15 +29,76 @@ export default function PwaRegister() {
         window.location.hostname === "127.0.0.1" ||
         window.location.hostname === "[::1]"
     );
+    if (window.location.protocol !== "https:" && !isLocalhost) return;
 
-    if (window.location.protocol === "https:" || isLocalhost) {
-      navigator.serviceWorker
-        .register("/sw.js")
-        .catch(() => {
-          // Ignore registration errors
-        });
+    // The first install takes control without a reload; only replacements are announced
+    const hadController = !!navigator.serviceWorker.controller;
+    let registration: ServiceWorkerRegistration | null = null;
+
+    function watch(worker: ServiceWorker) {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) setWaiting(worker);
+      });
+    }
+
+    function onControllerChange() {
+      if (hadController) window.location.reload();
     }
+
+    function onVisible() {
+      if (document.visibilityState === "visible") registration?.update().catch(() => {});
+    }
+
+    const base = deploymentBase();
+    navigator.serviceWorker
+      .register(`${base}sw.js`, { scope: base })
+      .then((reg) => {
+        registration = reg;
+        if (reg.waiting && navigator.serviceWorker.controller) setWaiting(reg.waiting);
+        if (reg.installing) watch(reg.installing);
+        reg.addEventListener("updatefound", () => {
+          if (reg.installing) watch(reg.installing);
+        });
+      })
+      .catch(() => {
+        // Ignore registration errors
+      });
+
+    navigator.serviceWorker.addEventListener("controllerchange", onControllerChange);
+    // Installed apps can stay open for days, so look for a new version whenever they come back
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      navigator.serviceWorker.removeEventListener("controllerchange", onControllerChange);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
   }, []);
 
-  return null;
-} 
\ No newline at end of file
+  if (!waiting) return null;
+
+  return (
+    <div role="status" className="fixed inset-x-0 top-4 flex justify-center px-4 z-50">
+      <div className="w-full max-w-md bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border border-black/[.08] dark:border-white/[.145] rounded shadow p-3 sm:p-4 flex items-center gap-3">
+        <div className="flex-1">
+          <div className="text-sm font-medium">Update available</div>
+          <div className="text-xs opacity-80">Reload to get the new version. Your games are kept.</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setWaiting(null)}
+            className="h-9 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+          >
+            Later
+          </button>
+          <button
+            type="button"
+            onClick={() => waiting.postMessage({ type: "SKIP_WAITING" })}
+            className="h-9 px-3 rounded bg-foreground text-background text-sm font-medium hover:opacity-90"
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QrReader from "@/components/QrReader";
+import { oppositeSide, type BoardConfig } from "@/lib/engine";
+import { parseScannedConfig, renderQrDataUrl } from "@/lib/qr";
+import { buildPartnerLink } from "@/lib/share";
+
+type QrHandoffProps = {
+  config: BoardConfig;
+  digest: string;
+  onImport: (config: BoardConfig) => void;
+};
+
+export default function QrHandoff({ config, digest, onImport }: QrHandoffProps) {
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderQrDataUrl(buildPartnerLink(config, window.location))
+      .then((url) => {
+        if (!cancelled) setQrUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setQrUrl(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [config]);
+
+  function handleDecoded(text: string | null) {
+    if (!text) {
+      setStatus("No QR code found.");
+      return;
+    }
+    const parsed = parseScannedConfig(text);
+    if (!parsed.ok) {
+      setStatus(parsed.error);
+      return;
+    }
+    onImport(parsed.config);
+    setStatus(`Opened side ${parsed.config.side} of the shared board as a new game.`);
+  }
+
+  return (
+    <div className="mt-4 flex flex-wrap gap-6 items-start justify-center">
+      <div className="flex flex-col gap-2 items-center">
+        <span className="text-sm">Partner scans this (side {oppositeSide(config.side)}, {digest})</span>
+        {qrUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={qrUrl} alt={`QR code for board ${digest}`} width={240} height={240} className="rounded bg-white" />
+        ) : (
+          <div className="w-[240px] h-[240px] rounded bg-zinc-300 opacity-40" />
+        )}
+      </div>
+      <div className="flex flex-col gap-2 items-center">
+        <span className="text-sm">Import from partner</span>
+        <QrReader onDecoded={handleDecoded} onError={setStatus} />
+        {status ? <div role="status" className="text-xs opacity-80 max-w-[240px] text-center">{status}</div> : null}
+      </div>
+    </div>
+  );
+}
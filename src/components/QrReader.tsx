@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { decodeQrFile, decodeQrImage } from "@/lib/qr";
+
+type QrReaderProps = {
+  // Null when an uploaded image had no QR code in it
+  onDecoded: (text: string | null) => void;
+  onError: (message: string) => void;
+};
+
+export default function QrReader({ onDecoded, onError }: QrReaderProps) {
+  const [scanning, setScanning] = useState<boolean>(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!scanning) return;
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+    function tick() {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (ctx && video && video.readyState >= video.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+        const text = decodeQrImage(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        if (text) {
+          setScanning(false);
+          onDecoded(text);
+          return;
+        }
+      }
+      frame = window.requestAnimationFrame(tick);
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((s) => {
+        if (stopped) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = s;
+          void video.play();
+        }
+        frame = window.requestAnimationFrame(tick);
+      })
+      .catch(() => {
+        setScanning(false);
+        onError("Camera unavailable. Upload a photo of the QR code instead.");
+      });
+
+    return () => {
+      stopped = true;
+      window.cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+    // The callbacks only matter once a code is found, so a scan session isn't restarted when they change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanning]);
+
+  async function onFileChange(file: File | undefined) {
+    if (!file) return;
+    try {
+      onDecoded(await decodeQrFile(file));
+    } catch {
+      onError("Couldn't read that image.");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  return (
+    <>
+      {scanning ? <video ref={videoRef} muted playsInline className="w-[240px] h-[240px] rounded object-cover bg-black" /> : null}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setScanning((s) => !s)}
+          className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+        >
+          {scanning ? "Stop camera" : "Scan"}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+        >
+          Upload image
+        </button>
+        <input ref={fileRef} type="file" accept="image/*" className="hidden" onChange={(e) => onFileChange(e.target.files?.[0])} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { isRoomCode, normalizeRoomCode, type RelayStatus } from "@/lib/relay";
+
+type RelayPanelProps = {
+  url: string;
+  status: RelayStatus;
+  code: string | null;
+  peers: number;
+  error: string | null;
+  onChangeUrl: (url: string) => void;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+};
+
+const STATUS_LABELS: Record<RelayStatus, string> = {
+  connecting: "Connecting…",
+  open: "Connected",
+  reconnecting: "Connection lost, reconnecting…",
+  closed: "Not connected",
+};
+
+export default function RelayPanel({ url, status, code, peers, error, onChangeUrl, onCreate, onJoin, onLeave }: RelayPanelProps) {
+  const [joinCode, setJoinCode] = useState<string>("");
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-40 disabled:pointer-events-none";
+  const active = status !== "closed";
+  const normalized = normalizeRoomCode(joinCode);
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center text-sm">
+      <div className="flex flex-col gap-1 w-full max-w-md">
+        <label className="text-sm">Relay address</label>
+        <input
+          type="url"
+          value={url}
+          disabled={active}
+          onChange={(e) => onChangeUrl(e.target.value)}
+          placeholder="wss://relay.example.com"
+          className="h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3 disabled:opacity-60"
+        />
+        {!url.trim() ? <span className="text-xs opacity-70">Run `npm run relay` on any machine your players can reach, then enter its address here.</span> : null}
+      </div>
+      {active ? (
+        <>
+          <span role="status">
+            {code ? (
+              <>
+                Room <span className="font-mono font-semibold">{code}</span> · {peers} {peers === 1 ? "device" : "devices"} ·{" "}
+              </>
+            ) : null}
+            {STATUS_LABELS[status]}
+          </span>
+          <button type="button" onClick={onLeave} className={buttonClass}>
+            Leave room
+          </button>
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button type="button" onClick={onCreate} disabled={!url.trim()} className={buttonClass}>
+            Create room
+          </button>
+          <input
+            type="text"
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value)}
+            placeholder="Room code"
+            aria-label="Room code"
+            className="w-28 h-10 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-3 font-mono uppercase"
+          />
+          <button type="button" onClick={() => onJoin(normalized)} disabled={!url.trim() || !isRoomCode(normalized)} className={buttonClass}>
+            Join
+          </button>
+        </div>
+      )}
+      {error ? (
+        <div role="alert" className="text-red-500 text-center">
+          {error}
+        </div>
+      ) : null}
+    </div>
+  );
+}
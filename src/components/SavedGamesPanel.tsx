@@ -0,0 +1,123 @@
+"use client";
+
+import { useRef } from "react";
+import type { GameProgress, SavedGameMeta } from "@/lib/storage";
+
+type SavedGamesPanelProps = {
+  games: SavedGameMeta[];
+  activeId: string | null;
+  onNew: () => void;
+  onResume: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+function formatDate(at: number): string {
+  return new Date(at).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+function describeProgress(progress: GameProgress): string {
+  const cards = `${progress.resolved}/${progress.total} cards`;
+  switch (progress.status) {
+    case "won":
+      return `Won · ${cards}`;
+    case "lost":
+      return `Lost · ${cards}`;
+    case "suddenDeath":
+      return `Sudden death · ${cards}`;
+    default:
+      return cards;
+  }
+}
+
+export default function SavedGamesPanel({
+  games,
+  activeId,
+  onNew,
+  onResume,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: SavedGamesPanelProps) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const buttonClass =
+    "h-8 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-xs font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]";
+  const actionClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]";
+
+  function onFiles(files: FileList | null) {
+    if (files && files.length > 0) onImport(files[0]);
+    if (fileRef.current) fileRef.current.value = "";
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button type="button" onClick={onNew} className={actionClass}>
+          New game
+        </button>
+        <button type="button" onClick={onExport} title="Download the current game as a JSON file" className={actionClass}>
+          Export
+        </button>
+        <button type="button" onClick={() => fileRef.current?.click()} className={actionClass}>
+          Import
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => onFiles(e.target.files)} />
+      </div>
+      <span className="text-xs opacity-70">You can also drop a game file anywhere on the page.</span>
+      <ul className="w-full max-w-lg flex flex-col gap-2">
+        {games.map((g) => {
+          const active = g.id === activeId;
+          return (
+            <li
+              key={g.id}
+              className={`flex flex-col gap-2 px-3 py-2 rounded border text-sm ${
+                active ? "border-foreground/40" : "border-black/[.08] dark:border-white/[.145]"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                {active ? (
+                  <input
+                    type="text"
+                    value={g.name}
+                    onChange={(e) => onRename(g.id, e.target.value)}
+                    aria-label="Name of the current game"
+                    className="min-w-0 flex-1 h-8 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent px-2"
+                  />
+                ) : (
+                  <span className="truncate font-medium">{g.name}</span>
+                )}
+                <span className="text-xs font-mono opacity-70">{g.digest}</span>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs opacity-70">
+                  {describeProgress(g.progress)} · {formatDate(g.updatedAt)}
+                </span>
+                <span className="flex items-center gap-2">
+                  {active ? (
+                    <span className="text-xs opacity-70">Playing</span>
+                  ) : (
+                    <button type="button" onClick={() => onResume(g.id)} className={buttonClass}>
+                      Resume
+                    </button>
+                  )}
+                  <button type="button" onClick={() => onDuplicate(g.id)} className={buttonClass}>
+                    Duplicate
+                  </button>
+                  <button type="button" onClick={() => onDelete(g.id)} aria-label={`Delete ${g.name}`} className={buttonClass}>
+                    Delete
+                  </button>
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useColorMode, type ColorModePreference } from "@/components/ui/color-mode";
+import { toaster } from "@/components/ui/toaster";
+import { PALETTES, isPalette } from "@/lib/cellStyles";
+import type { BoardConfig } from "@/lib/engine";
+import { toDefaultBoard, type MotionPreference, type Settings } from "@/lib/settings";
+
+type SettingsPanelProps = {
+  settings: Settings;
+  config: BoardConfig;
+  onChange: (settings: Settings) => void;
+};
+
+const THEME_LABELS: Record<ColorModePreference, string> = {
+  light: "Light",
+  dark: "Dark",
+  system: "System",
+};
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: "Follow system",
+  reduce: "Reduced",
+  full: "Full",
+};
+
+function describeBoard(config: BoardConfig): string {
+  const size = `${config.gridSize}×${config.gridSize}`;
+  return config.mode === "duet"
+    ? `Duet ${size}, ${config.numGood} agents, ${config.numBad} assassins`
+    : `Classic ${size}, ${config.numGood} agents per team, ${config.numBad} assassin${config.numBad === 1 ? "" : "s"}`;
+}
+
+export default function SettingsPanel({ settings, config, onChange }: SettingsPanelProps) {
+  const { preference, setPreference } = useColorMode();
+  const toggleClass = (active: boolean) =>
+    `h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium ${active ? "bg-foreground text-background" : "hover:bg-black/[.04] dark:hover:bg-white/[.06]"}`;
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]";
+  const selectClass = "h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] bg-transparent";
+
+  function onUseCurrentBoard() {
+    onChange({ ...settings, defaultBoard: toDefaultBoard(config) });
+    toaster.create({ title: "New games will use this board", description: describeBoard(config), type: "success" });
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-4 items-center text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span>Theme</span>
+        {(["light", "dark", "system"] as const).map((theme) => (
+          <button key={theme} type="button" aria-pressed={preference === theme} onClick={() => setPreference(theme)} className={toggleClass(preference === theme)}>
+            {THEME_LABELS[theme]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <label className="flex items-center gap-2">
+          <span>Colors</span>
+          <select
+            value={settings.cellStyle.palette}
+            onChange={(e) => {
+              if (isPalette(e.target.value)) onChange({ ...settings, cellStyle: { ...settings.cellStyle, palette: e.target.value } });
+            }}
+            className={selectClass}
+          >
+            {Object.entries(PALETTES).map(([id, palette]) => (
+              <option key={id} value={id}>
+                {palette.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.cellStyle.symbols}
+            onChange={(e) => onChange({ ...settings, cellStyle: { ...settings.cellStyle, symbols: e.target.checked } })}
+          />
+          <span>Show symbols</span>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span>Animations</span>
+        <select
+          value={settings.motion}
+          onChange={(e) => {
+            const motion = e.target.value;
+            if (motion === "system" || motion === "reduce" || motion === "full") onChange({ ...settings, motion });
+          }}
+          className={selectClass}
+        >
+          {(Object.keys(MOTION_LABELS) as MotionPreference[]).map((m) => (
+            <option key={m} value={m}>
+              {MOTION_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.confirmNewGame} onChange={(e) => onChange({ ...settings, confirmNewGame: e.target.checked })} />
+        <span>Ask before starting a new game</span>
+      </label>
+
+      <div className="flex flex-col items-center gap-2">
+        <span>New games start as: {settings.defaultBoard ? describeBoard(settings.defaultBoard) : "the current board"}</span>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button type="button" onClick={onUseCurrentBoard} className={buttonClass}>
+            Use current board
+          </button>
+          {settings.defaultBoard ? (
+            <button type="button" onClick={() => onChange({ ...settings, defaultBoard: null })} className={buttonClass}>
+              Clear default
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  BREAKDOWNS,
+  breakdown,
+  clearFinishedGames,
+  finishedGamesToCsv,
+  isStatsKey,
+  loadFinishedGames,
+  summarize,
+  type Breakdown,
+  type FinishedGame,
+  type StatsSummary,
+} from "@/lib/stats";
+
+const LOSS_LABELS = {
+  assassin: "assassin",
+  mistakes: "too many mistakes",
+  suddenDeath: "sudden death",
+} as const;
+
+function percent(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+function decimal(value: number | null): string {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+function SummaryRow({ label, summary }: { label: string; summary: StatsSummary }) {
+  return (
+    <tr className="border-t border-black/[.08] dark:border-white/[.145]">
+      <td className="py-1.5 pr-3">{label}</td>
+      <td className="py-1.5 px-3 text-right font-mono">{summary.games}</td>
+      <td className="py-1.5 px-3 text-right font-mono">{percent(summary.winRate)}</td>
+      <td className="py-1.5 px-3 text-right font-mono">{decimal(summary.averageTurns)}</td>
+      <td className="py-1.5 pl-3 text-right font-mono">{decimal(summary.averageMistakes)}</td>
+    </tr>
+  );
+}
+
+export default function StatsDashboard() {
+  const [games, setGames] = useState<FinishedGame[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [includePractice, setIncludePractice] = useState<boolean>(true);
+  const buttonClass =
+    "h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06] disabled:opacity-50";
+
+  useEffect(() => {
+    setGames(loadFinishedGames());
+    setLoaded(true);
+    function onStorage(e: StorageEvent) {
+      if (isStatsKey(e.key)) setGames(loadFinishedGames());
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const shown = useMemo(() => (includePractice ? games : games.filter((g) => !g.practice)), [games, includePractice]);
+  const total = useMemo(() => summarize(shown), [shown]);
+
+  function onExport() {
+    const blob = new Blob([finishedGamesToCsv(shown)], { type: "text/csv" });
+    downloadBlob(blob, `codenames-stats-${new Date().toISOString().slice(0, 10)}.csv`);
+  }
+
+  function onClear() {
+    if (!window.confirm("Delete every recorded game from this device? Saved games are kept.")) return;
+    clearFinishedGames();
+    setGames([]);
+  }
+
+  if (!loaded) return null;
+
+  if (games.length === 0) {
+    return (
+      <p className="text-sm text-center opacity-80 max-w-md">
+        No finished games yet. Every Duet game played to a win or a loss on this device is recorded here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-[720px] flex flex-col gap-6 items-center text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includePractice} onChange={(e) => setIncludePractice(e.target.checked)} />
+          <span>Include solo practice</span>
+        </label>
+        <button type="button" onClick={onExport} disabled={shown.length === 0} className={buttonClass}>
+          Export CSV
+        </button>
+        <button type="button" onClick={onClear} className={buttonClass}>
+          Clear stats
+        </button>
+      </div>
+
+      <dl className="w-full grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {[
+          ["Games", String(total.games)],
+          ["Win rate", percent(total.winRate)],
+          ["Average turns", decimal(total.averageTurns)],
+          ["Average mistakes", decimal(total.averageMistakes)],
+          ["Assassin hits", String(total.assassinHits)],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded border border-black/[.08] dark:border-white/[.145] p-3 flex flex-col items-center gap-1">
+            <dt className="text-xs opacity-70">{label}</dt>
+            <dd className="text-xl font-semibold font-mono">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {(Object.keys(BREAKDOWNS) as Breakdown[]).map((by) => (
+        <section key={by} className="w-full flex flex-col gap-2">
+          <h2 className="font-medium">{BREAKDOWNS[by].title}</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-xs opacity-70">
+                  <th className="pb-1 pr-3 text-left font-normal"></th>
+                  <th className="pb-1 px-3 text-right font-normal">Games</th>
+                  <th className="pb-1 px-3 text-right font-normal">Win rate</th>
+                  <th className="pb-1 px-3 text-right font-normal">Avg. turns</th>
+                  <th className="pb-1 pl-3 text-right font-normal">Avg. mistakes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdown(shown, by).map((group) => (
+                  <SummaryRow key={group.label} label={group.label} summary={group.summary} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ))}
+
+      <section className="w-full flex flex-col gap-2">
+        <h2 className="font-medium">Recent games</h2>
+        <ol className="flex flex-col gap-1">
+          {shown.slice(0, 10).map((g) => (
+            <li key={g.id} className="flex flex-wrap justify-between gap-x-3 border-t border-black/[.08] dark:border-white/[.145] py-1.5">
+              <span>
+                <span className={g.outcome === "won" ? "text-green-600" : "text-red-500"}>{g.outcome === "won" ? "Won" : "Lost"}</span>
+                {g.lossReason ? <span className="opacity-70"> ({LOSS_LABELS[g.lossReason]})</span> : null} in {g.turns} turn{g.turns === 1 ? "" : "s"}
+                {g.practice ? <span className="opacity-70"> · practice</span> : null}
+              </span>
+              <span className="opacity-70">
+                <span className="font-mono">{g.digest}</span> · {new Date(g.finishedAt).toLocaleDateString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
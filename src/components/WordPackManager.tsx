@@ -0,0 +1,89 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { deleteCustomPack, parseWordPackFile, saveCustomPack, type WordPack } from "@/lib/words";
+
+type WordPackManagerProps = {
+  packs: WordPack[];
+  minWords: number;
+  onChange: () => void;
+};
+
+export default function WordPackManager({ packs, minWords, onChange }: WordPackManagerProps) {
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  async function onFiles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    const messages: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const parsed = parseWordPackFile(file.name, await file.text(), minWords);
+        if (!parsed.ok) {
+          messages.push(parsed.error);
+          continue;
+        }
+        const existing = packs.find((p) => p.id === parsed.pack.id);
+        await saveCustomPack(existing ? { ...parsed.pack, name: existing.name } : parsed.pack);
+        messages.push(existing ? `"${existing.name}" is already imported.` : `Imported "${parsed.pack.name}" (${parsed.pack.words.length} words).`);
+      } catch {
+        messages.push(`Couldn't import ${file.name}.`);
+      }
+    }
+    if (fileRef.current) fileRef.current.value = "";
+    setStatus(messages.join(" "));
+    onChange();
+  }
+
+  async function onDelete(pack: WordPack) {
+    try {
+      await deleteCustomPack(pack.id);
+      setStatus(`Deleted "${pack.name}".`);
+    } catch {
+      setStatus(`Couldn't delete "${pack.name}".`);
+    }
+    onChange();
+  }
+
+  return (
+    <div className="mt-4 flex flex-col gap-3 items-center">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="h-10 px-4 rounded border border-black/[.08] dark:border-white/[.145] text-sm font-medium hover:bg-black/[.04] dark:hover:bg-white/[.06]"
+        >
+          Import pack
+        </button>
+        <span className="text-xs opacity-70">.txt (one per line), .csv or .json</span>
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => onFiles(e.target.files)}
+        />
+      </div>
+      {status ? <div role="status" className="text-xs opacity-80 text-center">{status}</div> : null}
+      {packs.length === 0 ? (
+        <div className="text-sm opacity-70">No custom packs yet.</div>
+      ) : (
+        <ul className="w-full max-w-md flex flex-col gap-2">
+          {packs.map((pack) => (
+            <li key={pack.id} className="flex items-center justify-between gap-3 h-10 px-3 rounded border border-black/[.08] dark:border-white/[.145] text-sm">
+              <span className="truncate">{pack.name}</span>
+              <span className="flex items-center gap-3">
+                <span className={`text-xs ${pack.words.length < minWords ? "text-red-500" : "opacity-70"}`}>{pack.words.length} words</span>
+                <span className="text-xs font-mono opacity-70">{pack.hash}</span>
+                <button type="button" onClick={() => onDelete(pack)} aria-label={`Delete ${pack.name}`} className="opacity-70 hover:opacity-100">
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -17,14 +17,18 @@ export function ColorModeProvider(props: ColorModeProviderProps) {
 
 export type ColorMode = "light" | "dark"
 
+export type ColorModePreference = ColorMode | "system"
+
 export interface UseColorModeReturn {
   colorMode: ColorMode
   setColorMode: (colorMode: ColorMode) => void
   toggleColorMode: () => void
+  preference: ColorModePreference
+  setPreference: (preference: ColorModePreference) => void
 }
 
 export function useColorMode(): UseColorModeReturn {
-  const { resolvedTheme, setTheme, forcedTheme } = useTheme()
+  const { theme, resolvedTheme, setTheme, forcedTheme } = useTheme()
   const colorMode = forcedTheme || resolvedTheme
   const toggleColorMode = () => {
     setTheme(resolvedTheme === "dark" ? "light" : "dark")
@@ -33,6 +37,8 @@ export function useColorMode(): UseColorModeReturn {
     colorMode: colorMode as ColorMode,
     setColorMode: setTheme,
     toggleColorMode,
+    preference: (theme ?? "system") as ColorModePreference,
+    setPreference: setTheme,
   }
 }
 
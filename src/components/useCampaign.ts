@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toaster } from "@/components/ui/toaster";
+import {
+  campaignLevel,
+  isCampaignKey,
+  levelConfig,
+  loadCampaignResults,
+  newlyUnlocked,
+  recordCampaignResult,
+  resetCampaign,
+  type CampaignGame,
+  type CampaignResult,
+} from "@/lib/campaign";
+import { configDigest, type BoardConfig } from "@/lib/engine";
+import { createDuetGame, type DuetGame } from "@/lib/game";
+import { snapshotFor, startHistory, type GameHistory } from "@/lib/history";
+import type { FinishedGame } from "@/lib/stats";
+
+type CampaignOptions = {
+  config: BoardConfig;
+  game: DuetGame | null;
+  // Opens the board for a level as a new saved game
+  onOpenLevel: (history: GameHistory, campaign: CampaignGame, name: string) => void;
+};
+
+// The campaign level the open game was dealt for and the results kept on this device
+export function useCampaign({ config, game, onOpenLevel }: CampaignOptions) {
+  const [campaign, setCampaign] = useState<CampaignGame | null>(null);
+  const [results, setResults] = useState<CampaignResult[]>([]);
+
+  useEffect(() => {
+    setResults(loadCampaignResults());
+    function onStorage(e: StorageEvent) {
+      if (isCampaignKey(e.key)) setResults(loadCampaignResults());
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // A campaign game stops counting once its board or rules are changed
+  const level = useMemo(() => {
+    const level = campaign ? campaignLevel(campaign.levelId) : null;
+    if (!campaign || !level || !game || configDigest(config) !== configDigest(levelConfig(level, campaign.attempt, config.side))) return null;
+    return game.rules.timerTokens === level.rules.timerTokens && game.rules.mistakesAllowed === level.rules.mistakesAllowed ? level : null;
+  }, [campaign, game, config]);
+
+  // Counts a finished game toward its level and announces the locations a win opens
+  const recordResult = useCallback(
+    (gameId: string, result: FinishedGame) => {
+      if (!campaign || !level) return;
+      const earlier = loadCampaignResults();
+      recordCampaignResult({ ...campaign, gameId, won: result.outcome === "won", turns: result.turns, at: result.finishedAt });
+      const after = loadCampaignResults();
+      setResults(after);
+      if (result.outcome !== "won") return;
+      const opened = newlyUnlocked(earlier, after).map((id) => campaignLevel(id)?.name ?? id);
+      toaster.create({
+        title: `${level.name} won`,
+        description: opened.length > 0 ? `Now open: ${opened.join(", ")}` : undefined,
+        type: "success",
+      });
+    },
+    [campaign, level],
+  );
+
+  // Each attempt is its own saved game, dealt from the level's seed on the player's side
+  function onStartLevel(levelId: string, attempt: number) {
+    const next = campaignLevel(levelId);
+    if (!next) return;
+    const history = startHistory(snapshotFor(levelConfig(next, attempt, config.side), undefined, undefined, createDuetGame(next.rules)));
+    onOpenLevel(history, { levelId, attempt }, `${next.name}, attempt ${attempt}`);
+  }
+
+  function onReset() {
+    resetCampaign();
+    setResults([]);
+  }
+
+  return { campaign, setCampaign, results, level, recordResult, onStartLevel, onReset };
+}
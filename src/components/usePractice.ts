@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { oppositeSide, type BoardConfig } from "@/lib/engine";
+import { canGuess, isGameOver, type DuetGame } from "@/lib/game";
+import type { GameAction } from "@/lib/history";
+import type { BotClue, PracticeSetup } from "@/lib/practice";
+
+// Pause between the computer partner's guesses in solo practice
+const BOT_GUESS_DELAY_MS = 800;
+
+type PracticeOptions = {
+  config: BoardConfig;
+  game: DuetGame | null;
+  // The computer's clue for this turn once it is in the clue log
+  given: { word: string; number: number } | null;
+  replaying: boolean;
+  dispatch: (action: GameAction) => void;
+};
+
+// Solo practice: the setup saved with the game and the computer partner
+// playing the other side through the same actions a person would
+export function usePractice({ config, game, given, replaying, dispatch }: PracticeOptions) {
+  const [practice, setPractice] = useState<PracticeSetup | null>(null);
+  // Cards the computer partner still means to guess this turn
+  const [botQueue, setBotQueue] = useState<{ turn: number; indices: number[] } | null>(null);
+  // Practice only applies while a Duet game is on; the setup comes back if an undo restores one
+  const solo = practice !== null && game !== null && config.mode === "duet";
+
+  const botStepRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    botStepRef.current = stepBot;
+  });
+  useEffect(() => {
+    if (!botQueue) return;
+    const timer = window.setTimeout(() => botStepRef.current(), BOT_GUESS_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [botQueue]);
+
+  // One guess per call, so each reveal shows before the next. A miss passes
+  // the turn and drops the rest; after the last hit the partner stops.
+  function stepBot() {
+    if (!botQueue) return;
+    if (!game || isGameOver(game) || game.turn !== botQueue.turn || game.clueGiver !== config.side) {
+      setBotQueue(null);
+      return;
+    }
+    const [next, ...rest] = botQueue.indices;
+    if (next === undefined) {
+      if (game.status === "playing") dispatch({ type: "endTurn" });
+      setBotQueue(null);
+      return;
+    }
+    if (canGuess(game, next)) dispatch({ type: "guess", index: next });
+    setBotQueue({ turn: botQueue.turn, indices: rest });
+  }
+
+  // Any change the player makes to the game stops the computer mid-turn
+  const stopBot = useCallback(() => setBotQueue(null), []);
+
+  function onClue(word: string, number: number, guesses: number[]) {
+    if (!game) return;
+    dispatch({ type: "clue", word, number, side: config.side });
+    setBotQueue({ turn: game.turn, indices: guesses });
+  }
+
+  // The computer's clue goes in the log once per turn, like one read out at the table
+  function onBotClue(clue: BotClue) {
+    if (!game || replaying || given) return;
+    dispatch({ type: "clue", word: clue.word, number: clue.number, side: oppositeSide(config.side) });
+  }
+
+  function onPartnerGuess(index: number) {
+    if (!game) return;
+    dispatch({ type: "clueGiver", side: config.side });
+    setBotQueue({ turn: game.turn, indices: [index] });
+  }
+
+  return { practice, setPractice, solo, busy: botQueue !== null, stopBot, onClue, onBotClue, onPartnerGuess };
+}
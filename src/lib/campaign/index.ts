@@ -0,0 +1,16 @@
+export { CAMPAIGN_LEVELS, CAMPAIGN_START, campaignLevel, campaignSeed, levelConfig, type BoardPreset, type CampaignLevel } from "./map";
+export {
+  campaignComplete,
+  isCampaignKey,
+  isValidCampaignGame,
+  levelRecord,
+  loadCampaignResults,
+  newlyUnlocked,
+  nextAttempt,
+  recordCampaignResult,
+  resetCampaign,
+  unlockedLevels,
+  type CampaignGame,
+  type CampaignResult,
+  type LevelRecord,
+} from "./progress";
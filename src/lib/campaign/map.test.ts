@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { configDigest, generateGrid, parseBoardConfig } from "@/lib/engine";
+import { CAMPAIGN_LEVELS, CAMPAIGN_START, campaignLevel, campaignSeed, levelConfig } from "./map";
+
+describe("levelConfig", () => {
+  it("deals the standard Duet card where a level changes nothing", () => {
+    const config = levelConfig(campaignLevel("lisbon")!, 2, "B");
+    expect(config).toMatchObject({ mode: "duet", gridSize: 5, numGood: 9, numBad: 3, overlapGreens: 3, side: "B" });
+    expect(config.seed).toBe(campaignSeed("lisbon", 2));
+  });
+
+  it("applies the level's board on top of the standard card", () => {
+    expect(levelConfig(campaignLevel("istanbul")!, 1, "A")).toMatchObject({ gridSize: 6, numGood: 13, numBad: 4, overlapGreens: 4 });
+    expect(levelConfig(campaignLevel("cairo")!, 1, "A")).toMatchObject({ gridSize: 5, numBad: 4 });
+  });
+
+  it("gives both partners the same board and a new one for each attempt", () => {
+    const level = campaignLevel("madrid")!;
+    expect(configDigest(levelConfig(level, 1, "A"))).toBe(configDigest(levelConfig(level, 1, "B")));
+    expect(configDigest(levelConfig(level, 2, "A"))).not.toBe(configDigest(levelConfig(level, 1, "A")));
+  });
+
+  it.each(CAMPAIGN_LEVELS.map((level) => [level.id, level] as const))("deals a valid board on both sides for %s", (_, level) => {
+    for (const side of ["A", "B"] as const) {
+      const config = levelConfig(level, 1, side);
+      expect(parseBoardConfig(config)).toEqual({ ok: true, config });
+      const cells = generateGrid(config);
+      expect(cells).toHaveLength(config.gridSize * config.gridSize);
+      expect(cells.filter((c) => c === "green")).toHaveLength(config.numGood);
+    }
+  });
+});
+
+describe("CAMPAIGN_LEVELS", () => {
+  it("only links to levels on the map", () => {
+    expect(campaignLevel(CAMPAIGN_START)).not.toBeNull();
+    for (const level of CAMPAIGN_LEVELS) {
+      level.neighbors.forEach((id) => expect(campaignLevel(id)).not.toBeNull());
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, normalizeOverlaps, overlapCounts, type BoardConfig, type Side } from "@/lib/engine";
+import type { DuetRules } from "@/lib/game";
+
+// Board settings a level changes from the standard Duet card
+export type BoardPreset = Partial<Pick<BoardConfig, "gridSize" | "numGood" | "numBad" | "overlapGreens" | "overlaps">>;
+
+// One location on the campaign map. `x` and `y` place it on the map in
+// percent of its width and height.
+export type CampaignLevel = {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  rules: DuetRules;
+  board?: BoardPreset;
+  // Locations opened up by winning here
+  neighbors: string[];
+};
+
+// The one location open on a fresh campaign
+export const CAMPAIGN_START = "lisbon";
+
+// Tokens and mistakes shrink the further a location is from the start. The
+// last stops also deal more assassins, fewer shared agents or a bigger grid,
+// and the 6×6 boards get a few tokens back for their extra agents.
+export const CAMPAIGN_LEVELS: CampaignLevel[] = [
+  { id: "lisbon", name: "Lisbon", x: 8, y: 46, rules: { timerTokens: 11, mistakesAllowed: 9 }, neighbors: ["madrid", "dakar"] },
+  { id: "madrid", name: "Madrid", x: 22, y: 40, rules: { timerTokens: 10, mistakesAllowed: 9 }, neighbors: ["paris", "rome"] },
+  {
+    id: "dakar",
+    name: "Dakar",
+    x: 10,
+    y: 84,
+    rules: { timerTokens: 10, mistakesAllowed: 8 },
+    board: { overlapGreens: 4 },
+    neighbors: ["cairo"],
+  },
+  { id: "paris", name: "Paris", x: 30, y: 24, rules: { timerTokens: 9, mistakesAllowed: 8 }, neighbors: ["london", "berlin"] },
+  { id: "rome", name: "Rome", x: 44, y: 46, rules: { timerTokens: 9, mistakesAllowed: 7 }, neighbors: ["berlin", "athens"] },
+  {
+    id: "cairo",
+    name: "Cairo",
+    x: 58,
+    y: 82,
+    rules: { timerTokens: 9, mistakesAllowed: 6 },
+    board: { numBad: 4 },
+    neighbors: ["athens", "istanbul"],
+  },
+  { id: "london", name: "London", x: 24, y: 10, rules: { timerTokens: 9, mistakesAllowed: 5 }, neighbors: ["reykjavik"] },
+  { id: "berlin", name: "Berlin", x: 46, y: 20, rules: { timerTokens: 8, mistakesAllowed: 5 }, neighbors: ["moscow"] },
+  {
+    id: "athens",
+    name: "Athens",
+    x: 56,
+    y: 58,
+    rules: { timerTokens: 8, mistakesAllowed: 4 },
+    board: { overlapGreens: 1 },
+    neighbors: ["istanbul"],
+  },
+  {
+    id: "reykjavik",
+    name: "Reykjavik",
+    x: 6,
+    y: 8,
+    rules: { timerTokens: 8, mistakesAllowed: 3 },
+    board: { numBad: 4, overlapGreens: 2 },
+    neighbors: [],
+  },
+  {
+    id: "istanbul",
+    name: "Istanbul",
+    x: 70,
+    y: 50,
+    rules: { timerTokens: 10, mistakesAllowed: 3 },
+    board: { gridSize: 6, numGood: 13, numBad: 4, overlapGreens: 4 },
+    neighbors: ["moscow", "tehran"],
+  },
+  {
+    id: "moscow",
+    name: "Moscow",
+    x: 72,
+    y: 12,
+    rules: { timerTokens: 10, mistakesAllowed: 2 },
+    board: { gridSize: 6, numGood: 13, numBad: 4, overlapGreens: 3 },
+    neighbors: ["tehran"],
+  },
+  {
+    id: "tehran",
+    name: "Tehran",
+    x: 90,
+    y: 64,
+    rules: { timerTokens: 7, mistakesAllowed: 1 },
+    board: { numBad: 5, overlapGreens: 2 },
+    neighbors: [],
+  },
+];
+
+export function campaignLevel(id: string): CampaignLevel | null {
+  return CAMPAIGN_LEVELS.find((level) => level.id === id) ?? null;
+}
+
+// Both partners get the same seed for the same level and attempt, so their
+// boards match without sharing a link. A retry moves to the next attempt and
+// a new board.
+export function campaignSeed(levelId: string, attempt: number): string {
+  return `campaign-${levelId}-${attempt}`;
+}
+
+// The Duet board for one attempt at a level, seen from `side`
+export function levelConfig(level: CampaignLevel, attempt: number, side: Side): BoardConfig {
+  const numBad = level.board?.numBad ?? 3;
+  const config: BoardConfig = {
+    algorithmVersion: LATEST_ALGORITHM_VERSION,
+    mode: "duet",
+    gridSize: 5,
+    numGood: 9,
+    numBad,
+    overlapGreens: 3,
+    overlaps: defaultOverlaps(numBad),
+    ...level.board,
+    seed: campaignSeed(level.id, attempt),
+    side,
+  };
+  return { ...config, ...normalizeOverlaps(overlapCounts(config)) };
+}
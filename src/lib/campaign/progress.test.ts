@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { isValidCampaignGame, levelRecord, newlyUnlocked, nextAttempt, unlockedLevels, type CampaignResult } from "./progress";
+
+function result(levelId: string, attempt: number, won: boolean, turns = 6): CampaignResult {
+  return { levelId, attempt, won, turns, gameId: `${levelId}-${attempt}`, at: attempt };
+}
+
+describe("unlockedLevels", () => {
+  it("opens only the start on a fresh campaign", () => {
+    expect(unlockedLevels([])).toEqual(new Set(["lisbon"]));
+  });
+
+  it("opens the neighbors of levels won, not of levels lost", () => {
+    const results = [result("lisbon", 1, true), result("madrid", 1, false)];
+    expect(unlockedLevels(results)).toEqual(new Set(["lisbon", "madrid", "dakar"]));
+  });
+
+  it("ignores results for levels that aren't on the map", () => {
+    expect(unlockedLevels([result("atlantis", 1, true)])).toEqual(new Set(["lisbon"]));
+  });
+});
+
+describe("newlyUnlocked", () => {
+  it("lists only the levels a win opened", () => {
+    const before = [result("lisbon", 1, true)];
+    expect(newlyUnlocked(before, [result("madrid", 1, true), ...before])).toEqual(["paris", "rome"]);
+  });
+
+  it("is empty after a loss or a repeat win", () => {
+    const before = [result("lisbon", 1, true)];
+    expect(newlyUnlocked(before, [result("madrid", 1, false), ...before])).toEqual([]);
+    expect(newlyUnlocked(before, [result("lisbon", 2, true), ...before])).toEqual([]);
+  });
+});
+
+describe("nextAttempt", () => {
+  it("follows the highest attempt played at the level", () => {
+    expect(nextAttempt([], "madrid")).toBe(1);
+    expect(nextAttempt([result("madrid", 3, false), result("madrid", 1, true), result("paris", 7, true)], "madrid")).toBe(4);
+  });
+});
+
+describe("levelRecord", () => {
+  it("counts attempts and wins and keeps the fewest turns in a win", () => {
+    const results = [result("rome", 1, false, 3), result("rome", 2, true, 8), result("rome", 3, true, 6), result("paris", 1, true, 2)];
+    expect(levelRecord(results, "rome")).toEqual({ attempts: 3, wins: 2, bestTurns: 6 });
+  });
+
+  it("has no best turns without a win", () => {
+    expect(levelRecord([result("rome", 1, false)], "rome")).toEqual({ attempts: 1, wins: 0, bestTurns: null });
+  });
+});
+
+describe("isValidCampaignGame", () => {
+  it("accepts a known level with a whole attempt number from 1", () => {
+    expect(isValidCampaignGame({ levelId: "madrid", attempt: 2 })).toBe(true);
+  });
+
+  it("rejects unknown levels and bad attempts", () => {
+    expect(isValidCampaignGame({ levelId: "atlantis", attempt: 1 })).toBe(false);
+    expect(isValidCampaignGame({ levelId: "madrid", attempt: 0 })).toBe(false);
+    expect(isValidCampaignGame({ levelId: "madrid", attempt: 1.5 })).toBe(false);
+    expect(isValidCampaignGame({ levelId: "madrid" })).toBe(false);
+    expect(isValidCampaignGame(null)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { CAMPAIGN_LEVELS, CAMPAIGN_START, campaignLevel } from "./map";
+
+// Ties a saved game to the campaign level and attempt it was dealt for
+export type CampaignGame = {
+  levelId: string;
+  attempt: number;
+};
+
+// One finished campaign game
+export type CampaignResult = CampaignGame & {
+  // Same id the statistics use, so finishing again after an undo replaces it
+  gameId: string;
+  won: boolean;
+  turns: number;
+  at: number;
+};
+
+export type LevelRecord = {
+  attempts: number;
+  wins: number;
+  // Fewest turns in a win
+  bestTurns: number | null;
+};
+
+const CAMPAIGN_KEY = "codenames-helper:campaign";
+
+export function isValidCampaignGame(value: unknown): value is CampaignGame {
+  if (!value || typeof value !== "object") return false;
+  const game = value as Record<string, unknown>;
+  return (
+    typeof game.levelId === "string" &&
+    campaignLevel(game.levelId) !== null &&
+    typeof game.attempt === "number" &&
+    Number.isInteger(game.attempt) &&
+    game.attempt >= 1
+  );
+}
+
+function isCampaignResult(value: unknown): value is CampaignResult {
+  if (!isValidCampaignGame(value)) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.gameId === "string" && typeof result.won === "boolean" && typeof result.turns === "number" && typeof result.at === "number";
+}
+
+// Most recently finished first
+export function loadCampaignResults(): CampaignResult[] {
+  try {
+    const raw: unknown = JSON.parse(window.localStorage.getItem(CAMPAIGN_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isCampaignResult) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCampaignResults(results: CampaignResult[]) {
+  try {
+    window.localStorage.setItem(CAMPAIGN_KEY, JSON.stringify(results));
+  } catch {}
+}
+
+export function recordCampaignResult(result: CampaignResult) {
+  saveCampaignResults([result, ...loadCampaignResults().filter((r) => r.gameId !== result.gameId)]);
+}
+
+export function resetCampaign() {
+  try {
+    window.localStorage.removeItem(CAMPAIGN_KEY);
+  } catch {}
+}
+
+// Lets an open map follow levels finished in another tab
+export function isCampaignKey(key: string | null): boolean {
+  return key === CAMPAIGN_KEY;
+}
+
+export function levelRecord(results: CampaignResult[], levelId: string): LevelRecord {
+  const played = results.filter((r) => r.levelId === levelId);
+  const winTurns = played.filter((r) => r.won).map((r) => r.turns);
+  return { attempts: played.length, wins: winTurns.length, bestTurns: winTurns.length > 0 ? Math.min(...winTurns) : null };
+}
+
+// The start plus the neighbors of every level won at least once
+export function unlockedLevels(results: CampaignResult[]): Set<string> {
+  const unlocked = new Set([CAMPAIGN_START]);
+  for (const result of results) {
+    if (!result.won) continue;
+    campaignLevel(result.levelId)?.neighbors.forEach((id) => unlocked.add(id));
+  }
+  return unlocked;
+}
+
+// Levels this win opened that weren't open before it
+export function newlyUnlocked(before: CampaignResult[], after: CampaignResult[]): string[] {
+  const had = unlockedLevels(before);
+  return [...unlockedLevels(after)].filter((id) => !had.has(id));
+}
+
+// Partners who play every attempt together land on the same number. Either
+// can step it to catch up with the other.
+export function nextAttempt(results: CampaignResult[], levelId: string): number {
+  return results.reduce((max, r) => (r.levelId === levelId ? Math.max(max, r.attempt) : max), 0) + 1;
+}
+
+export function campaignComplete(results: CampaignResult[]): boolean {
+  return CAMPAIGN_LEVELS.every((level) => levelRecord(results, level.id).wins > 0);
+}
@@ -0,0 +1,97 @@
+import type { BoardMode, CellColor } from "@/lib/engine";
+
+export type Palette = "standard" | "colorblind" | "contrast";
+
+export type CellStyle = {
+  palette: Palette;
+  // Draw a glyph on every colored cell so colors never have to be told apart by hue alone
+  symbols: boolean;
+};
+
+// One color per swatch, shared by the screen and exported key cards. The one
+// difference is the Duet assassin, which exports print black (see cellHex).
+type Swatch = {
+  hex: string;
+  text: string;
+};
+
+type PaletteDef = {
+  label: string;
+  colors: Record<CellColor, Swatch>;
+  // Duet assassins share a color with nothing else on the board
+  duetAssassin: Swatch;
+};
+
+const DARK_TEXT = "text-black/85";
+const LIGHT_TEXT = "text-white";
+
+export const PALETTES: Record<Palette, PaletteDef> = {
+  standard: {
+    label: "Standard",
+    colors: {
+      green: { hex: "#22c55e", text: DARK_TEXT },
+      yellow: { hex: "#facc15", text: DARK_TEXT },
+      black: { hex: "#18181b", text: LIGHT_TEXT },
+      red: { hex: "#ef4444", text: DARK_TEXT },
+      blue: { hex: "#3b82f6", text: DARK_TEXT },
+    },
+    duetAssassin: { hex: "#ef4444", text: DARK_TEXT },
+  },
+  // Okabe–Ito colors, which stay apart under the common kinds of color blindness
+  colorblind: {
+    label: "Colorblind safe",
+    colors: {
+      green: { hex: "#009e73", text: DARK_TEXT },
+      yellow: { hex: "#f0e442", text: DARK_TEXT },
+      black: { hex: "#000000", text: LIGHT_TEXT },
+      red: { hex: "#d55e00", text: DARK_TEXT },
+      blue: { hex: "#0072b2", text: LIGHT_TEXT },
+    },
+    duetAssassin: { hex: "#000000", text: LIGHT_TEXT },
+  },
+  contrast: {
+    label: "High contrast",
+    colors: {
+      green: { hex: "#15803d", text: LIGHT_TEXT },
+      yellow: { hex: "#fef08a", text: DARK_TEXT },
+      black: { hex: "#000000", text: LIGHT_TEXT },
+      red: { hex: "#b91c1c", text: LIGHT_TEXT },
+      blue: { hex: "#1d4ed8", text: LIGHT_TEXT },
+    },
+    duetAssassin: { hex: "#000000", text: LIGHT_TEXT },
+  },
+};
+
+export const CELL_SYMBOLS: Record<CellColor, string> = {
+  green: "✓",
+  yellow: "•",
+  black: "☠",
+  red: "▲",
+  blue: "■",
+};
+
+export const DEFAULT_CELL_STYLE: CellStyle = { palette: "standard", symbols: false };
+
+function swatch(color: CellColor, mode: BoardMode, palette: Palette): Swatch {
+  const def = PALETTES[palette];
+  // Classic needs black for the assassin since red is a team
+  return color === "black" && mode === "duet" ? def.duetAssassin : def.colors[color];
+}
+
+// Set as an inline style; the palette's hex values aren't Tailwind classes
+export function cellFill(color: CellColor, mode: BoardMode, palette: Palette = "standard"): string {
+  return swatch(color, mode, palette).hex;
+}
+
+export function cellTextClass(color: CellColor, mode: BoardMode, palette: Palette = "standard"): string {
+  return swatch(color, mode, palette).text;
+}
+
+// Print colors ignore the mode: assassins are black on paper like the physical cards
+export function cellHex(color: CellColor, palette: Palette = "standard"): string {
+  return PALETTES[palette].colors[color].hex;
+}
+
+export function isPalette(value: unknown): value is Palette {
+  return typeof value === "string" && Object.hasOwn(PALETTES, value);
+}
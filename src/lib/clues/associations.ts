@@ -0,0 +1,37 @@
+// How strongly each clue brings each word to mind, from 1 (a stretch) to 3
+// (obvious). Words are lower case; anything missing counts as unrelated.
+export type AssociationTable = Map<string, Map<string, number>>;
+
+export function parseAssociations(text: string): AssociationTable {
+  const table: AssociationTable = new Map();
+  for (const line of text.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon < 1) continue;
+    const words = new Map<string, number>();
+    for (const entry of line.slice(colon + 1).trim().split(" ")) {
+      const match = /^([a-z-]+)([123])$/.exec(entry);
+      if (match) words.set(match[1], Number(match[2]));
+    }
+    table.set(line.slice(0, colon), words);
+  }
+  return table;
+}
+
+async function inflate(base64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+let loading: Promise<AssociationTable> | null = null;
+
+// The table is only fetched and unpacked the first time the assistant is shown
+export function loadAssociations(): Promise<AssociationTable> {
+  if (!loading) {
+    loading = import("./table").then(({ CLUE_TABLE }) => inflate(CLUE_TABLE)).then(parseAssociations);
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
@@ -0,0 +1,2 @@
+export { loadAssociations, parseAssociations, type AssociationTable } from "./associations";
+export { clashesWithBoard, suggestClues, type ClueOptions, type ClueSuggestion } from "./suggest";
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { CellColor } from "@/lib/engine";
+import { parseAssociations } from "./associations";
+import { clashesWithBoard, suggestClues, type ClueOptions } from "./suggest";
+
+const WORDS = ["whale", "shark", "wave", "anchor", "sand"];
+const CELLS: CellColor[] = ["green", "green", "yellow", "black", "yellow"];
+
+function options(overrides: Partial<ClueOptions> = {}): ClueOptions {
+  return { cells: CELLS, words: WORDS, done: WORDS.map(() => false), target: "green", avoidNeutral: true, ...overrides };
+}
+
+describe("suggestClues", () => {
+  it("rejects a clue linked more strongly to an assassin than to any agent", () => {
+    const table = parseAssociations(["ship: anchor3 whale2 shark2", "ocean: whale3 shark2 anchor1"].join("\n"));
+    const suggestions = suggestClues(table, options());
+    expect(suggestions.map((s) => s.clue)).toEqual(["ocean"]);
+    expect(suggestions[0]).toMatchObject({ targets: [0, 1], risk: 3 });
+  });
+
+  it("only counts agents closer to the clue than the assassin", () => {
+    const table = parseAssociations("ocean: whale3 shark2 anchor2");
+    expect(suggestClues(table, options())[0]).toMatchObject({ clue: "ocean", targets: [0], risk: 3 });
+  });
+
+  it("steers clear of bystanders only when asked to", () => {
+    const table = parseAssociations("sea: wave3 whale2");
+    expect(suggestClues(table, options())).toEqual([]);
+    expect(suggestClues(table, options({ avoidNeutral: false }))[0]).toMatchObject({ clue: "sea", targets: [0] });
+  });
+
+  it("ignores cards already out of play", () => {
+    const table = parseAssociations("ship: anchor3 whale2");
+    expect(suggestClues(table, options({ done: [false, false, false, true, false] }))[0]).toMatchObject({ clue: "ship", targets: [0], risk: null });
+  });
+});
+
+describe("clashesWithBoard", () => {
+  it("rejects words on the table and words that contain one", () => {
+    expect(clashesWithBoard("Whale", WORDS)).toBe(true);
+    expect(clashesWithBoard("sandbox", WORDS)).toBe(true);
+    expect(clashesWithBoard("ocean", WORDS)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import type { CellColor } from "@/lib/engine";
+import type { AssociationTable } from "./associations";
+
+export type ClueOptions = {
+  // Key card colors, as returned by generateGrid
+  cells: CellColor[];
+  words: string[];
+  // Cards already out of play; they are neither targets nor risks
+  done: boolean[];
+  // The color the guessers are after: green in Duet, the team's in classic
+  target: CellColor;
+  // Bystanders only cost a turn, so steering clear of them is optional
+  avoidNeutral: boolean;
+  // Keep only the strongest few targets, for clues that should stay easy to read
+  maxTargets?: number;
+  limit?: number;
+};
+
+export type ClueSuggestion = {
+  clue: string;
+  // Cell indices, most strongly linked first
+  targets: number[];
+  score: number;
+  // The card to watch out for: the avoided word the clue hints at most
+  risk: number | null;
+};
+
+const DEFAULT_LIMIT = 8;
+
+function normalize(word: string): string {
+  return word.trim().toLocaleLowerCase();
+}
+
+// A clue can't be a word on the table or part of one, in either direction
+export function clashesWithBoard(clue: string, words: string[]): boolean {
+  const normalized = normalize(clue);
+  return words.map(normalize).some((word) => {
+    if (!word) return false;
+    if (word === normalized) return true;
+    const [short, long] = word.length < normalized.length ? [word, normalized] : [normalized, word];
+    return short.length >= 3 && long.includes(short);
+  });
+}
+
+function isAvoided(color: CellColor, target: CellColor, avoidNeutral: boolean): boolean {
+  if (color === target) return false;
+  return color !== "yellow" || avoidNeutral;
+}
+
+// Ranks every clue in the table by the target words it links above every
+// word the guessers must avoid. A clue never reaches a target unless the
+// target is strictly closer to it than any assassin on the board.
+export function suggestClues(table: AssociationTable, options: ClueOptions): ClueSuggestion[] {
+  const { cells, words, done, target, avoidNeutral } = options;
+  const live = cells.map((_, i) => i).filter((i) => !done[i] && normalize(words[i] ?? ""));
+  if (!live.some((i) => cells[i] === target)) return [];
+
+  const suggestions: ClueSuggestion[] = [];
+  for (const [clue, links] of table) {
+    if (clashesWithBoard(clue, words)) continue;
+    const weight = (i: number) => links.get(normalize(words[i])) ?? 0;
+
+    let assassin = 0;
+    let avoided = 0;
+    let risk: number | null = null;
+    for (const i of live) {
+      if (!isAvoided(cells[i], target, avoidNeutral)) continue;
+      const w = weight(i);
+      if (cells[i] === "black") assassin = Math.max(assassin, w);
+      if (w > avoided) {
+        avoided = w;
+        risk = i;
+      }
+    }
+
+    const targets = live
+      .filter((i) => cells[i] === target && weight(i) > avoided)
+      .sort((a, b) => weight(b) - weight(a))
+      .slice(0, options.maxTargets);
+    if (targets.length === 0) continue;
+    const reach = targets.reduce((sum, i) => sum + weight(i), 0);
+    suggestions.push({ clue, targets, score: reach - avoided - assassin, risk });
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || b.targets.length - a.targets.length || a.clue.localeCompare(b.clue))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
@@ -0,0 +1,2 @@
+// Generated by scripts/build-clue-table.mjs from associations.txt. Do not edit.
+export const CLUE_TABLE = "lVpNuuSojp2zCjbQA8PMu8GYsLmBwQX4RkWu/n1HEo6bWfW+7p7kTxiEECAdHan44PKsX7tLweq2u/q0+uW+g9W+VJesriE8rG7BWb2WdO4xW118L+fVrG7XcrgaM82Np9HNxWT0I7bd6DO4mowu79ZDNdpXtxgISka3PaRktMt+L9XoM1bXg9GxJZdXo31xrRu9u7rg8xKc3yE7daNfjqQtxXWj+1V7CkafpfZJnyFvV8yTbi6vk2691GNSrvVasrv6rGvxz9CtPkrJVrfT+WB1qUvsVp/J5dCNbt1VrNVDShFK7SEd9OGKHaqmwqN6LBmqHqFP+gg9lIqV+1Uz/l/9Vd8Tdt1DndTmkvv7PZP4sditAgkxrIkRGUZkYuFsdA8pNF/OYEj7SQdX+/5ZSB1Xi37Wi8srBGYfard6rddh9XZFXja6XKz+jiXhGB/p6sHCzKfVvV7HCZ1K3RzO+AzVWd1i3kK1OhcMdWmBvBp8qavV1a2xwBg15g226TinvUD71x4bnc1CR7267IPRzTv8FvxeJu3TtUyqVL+H1qub/xfFIPfH1nhV3qLhrRnW2pC2uCMvw9uZWLeJzDOpmBukhtzn/59t2JxioX/dpy/H6VqbPgc28aYnXa+Em+BLeca8zdrveFn4r9UnBJ6lW/0MveMtPqFwyFY/c3wEox+lPo1uZ8GtO5OTDabxLs5wnvQwrk4PpJXrNHqpwa2T9u4ZYIMw6Y63NemwbZP+csekH7FCxx7cMSmMfz5c6zMPtBhoMdCKZKu/rohLe8T0tHpxW0iW18HR5/CGzV3eoJ/LLjuj3XnCAH4PoeHv65x4C5N61Cv2mUdYmWAxsta31Vt1Z7A6hQMPlsVavfDHkuJ3MNp9F+/WYlgvA12NbLUG7NqlY1LfYQvdLSnM2rtaYemzdNcLxJHxxX5/St1cXUM2+uHqMZFVJ11L6ZNaQ2uh9pmsiwsEL3htuExiB97GOBOxN+wGW8QT/859UhA9a19eELLBlYZwwgjRPwNftEbGwf2vcJpWP2JIK1z1hvvwCPS6wrYZko8lcRuPSG/v8k96pe5l9NvVdYJhcUnZBJOYZCJTjO39KmXWKcLwPZIPCCmcu8vd6l9hgXN4ury5WorV3h0hkaeGO2c/fDv77J7w0bSG0eWVJv0q6TGp5h6uxrHKP8TTsmbI/rryhnfm3XHCH+bOn/De14CTmPTu+qTC9j77rM93dUdcrT6u43iLilaGWooREHOcELqVhIjhSz0jvCte6KRr/MaxeUg9Q5/1WjYI6jiGhcOGXCYOeUe5WviEpSXWVfY/8SniEW6TftSyTQqfZx3clsjTvJ4WxvnIFDta3V64oThGqx/B9R2n8SLvtwT3tDoHPFW5MHIPfHWZ3mDHdvDWYm7B91kvAbfp2qze6a63M64w9AvxUr/C8tMSL7IEXehJ1XD2iDdEe7KyUavXmEtzVzW8M71W3MtJnTXAPZaK0DQGWf0orUV4jZLpQKHEd0ne5fIJpdGHSfUaXLtqIG+JPeKg4DRhlq/wohON7iiIegQ4rD7caQVSWL2Fw2pfyyt/4MUTb5ND1pdbYQB6jPG7cMR+t+7SpEh8fc9a4swfy5BkUUG04mVYpogx2h0L3eLd4Um8HMXIsVaB05n04eqSwqSO0F2a703iox0h3ujDbQRRsHs4f7j9TIDL1aOMNSaOGJNur4KnzvgFfjBjgTWGb6zxzHHbcWlcoyOk0ZYlWbr/Vv91Bfifs8YMj9/3WgD1aJ9WDhmnWTtUqAi3Ay318sKuT5ccPNMr/nJ4CxSS3d/0CwVkeRXNrSuFCJczLk4tb1Ly39SQ5Yc2vMTYiOEjgZEuqMXbnMbpTQr3qP0h+Xdb3Mq3vy5X4RzcQcEWnlOd5RkqBZGVXtwJl4KHuVL0AaYxYzWYw5EWdNlotSHuhC9kqLC4/Jw0RadJeddiLjOJGwvwYhhmaLEh47UHbPVwYsoekqAqurOTagDGAIUpWbYI3dUH/BdD4dbdGgFqfHGIK0dYgfoJLgH4OGyNFrCytwXAm+7hWQrc+5OwyEobpbA01PNvz16Q/jF06iHn2OZbA1GLdSRUTMsZtbgW8Cv0vweIYlsq38F+7CzbgDM5De9lYmUm1Yr3OLLfBPy+71tx2tdScDaiRUnv44y+zcM0HYB1PHky0HAmtxJikkdym1GvmDuWbxkBnk71UQv5suR8xAun8aRKN7w1o5fk8pMTEnbLkXKa4p8Dso10R7XrOGiFK1tOlkZ44xN6uDzCJpwqw6mJ0ryJUdOkXhxWcCwUcbAo3tiVV2joU7lWPHXAE9oI9LGcm9B2jL6OpYaUnEFe4JAMPREyXMzvIXYMEYGyOaOPa2WzT2SEaSw8KWx1hiWPcJveu7zCZbm2f+5mwdlIEDHim4xOZRtbZ4SrS0yT3lybdHLHOWEHk0p4/zP98hEvqy1XWqymETvCu2U7J9fgI6p7j5zxIGgOhQ0rbOCyGu7D7lY4vhRyA+irtZDTp2cLQ5bXBPjje41+UpTizow+sBAiLSXgxRNUHUdUA2D5o1y50y84bc7e6aANkjeCgv7J17qzd7uWz7nTIvMtDD6GLABrwpTBcsYNiB9XgPpEaO7bpYQwynk40A8h2zSpQ/SZtU/x8QDIwLvjCfcR3bffUFZu6FYNLNDO+AyT2kJBArC/ZwndlpkBCfGuJ9cGoPtoRKsatp5hk7HS0wdjPEoNyIIYU04qI+UOM2UMVr4i7XAPy1DZDnlHac3o4vDoyU0sBMg/eQKtBNwSZgyj+ATDCm5nmZhq9auU1eKKfpZ0npJc4Dl42mMp5Wf6VAEaKENBPAd0UKASiNoof2oMVXGIvoOqYWFYGlc4FfoR+Ye9VYfSsjcobTjRkqxAPRKi4vy7AJ6K06UMJdDhsTcUyMjHM996CAxvdJwDZtqB1oXtWC/sn4EzeRC2zywHZu9kQlIESTEAPsc2MMuo3SWoHfKst52c7ov9/7c7zljDnR2054VbSpGG8bAFEkYYaE+jCSDgsEuhIJMJrRATow63Ad4yxLkXeNEGrxw90QTDId2wcMe74SzCUICfWEOkg7m79p5vgCVC7O9LDGxjbtiyRZeJIYPrZ2Fjn5M63n3/F5HyiGQq8msAioE4BxUlwshWAGcHSEMZZWUUsGNAtj9yKsGffF3VXuD15o/h5TzI8IZFm7GzkZHIBof/5LM4S2yIX0tya5hUC74iN2snkryygjuBH0jkVnjKxwFTIq58jQee+x5BwXxdK2iF5F5vinUMSE4kLgAMtJwZPAwLTBSH2/meVHKv+b+I8LurGwHnGB54z9UQAvcxBySTvgNr54vS+720M3ZHIChQACLwOMF1ANUjWZrG5tVS1vesd7pkD8K/4Y0/wD4c5eoAb6Xgr5AWxGuXn7dMyzLppgNCLwSk5SSQw6/DA3SHcEk5oNqDW+f/ttgQyM9oxzPiVAAv/hRlbuGcKSmfSt+ZCyuY8SWQkKbTNJCullAPaJFCusLRLSH1GwW6s+JOg2UhcqxwvGtEhPjCvz7cUqMn/iMDXxAxplp40frD5Py7pVFDopW5uBJEQLJAFv/MTAcLA0pLT+pVSpoHj8OyGl3HG9XxguZW5BXWlTThZJMpJb9fBEGEPF3oYcP//sgwiHZUPHKm/1l+xjdPKe9Rna72N8Ng4r95DZJtRbbgdsL54uSUj9VfDdGc066AkDG4GkPczQDA5I0n1fxO+++AovQcdkdcIVGdRINaDl/EFUHGUh38jbxP4m8nVR6P6IH+Irt8yoZpQncnkcmVEqqTOP9OcO7AhVWvGjtZ86TEkWey8EFlszIhf4fErDol0qSpUWdBsBkTxiDLi1gaCwl/GyWqzyKP3KmR2EyKg/A9zotTAFJ4eKkWKgE83t7B2JITvldYcD4LpU/XhkNfcM/IsS0Oar0nhqCgdXqoGS6Qpg2xwzpYbGwPSxkRrAbgjHwrSKisOlDvGPJxZYODEIBuCDMbHfIWM5yxj6AiZ9ZtDLcMhC0BYPuhxoF3wNB5urV3aGR6SNKI32oxbAbk8EdsHWZnARti2I94lIglYUJ3+O8hXvVSUoPvRNYEGoPwaZYzhV9xf5MvX2mDS71A7fGVo8t7x4K9FMKBJ50yFRU8ykIzwDJcFnFw9s+lWDIgwlj4phwGfbJQ9FLLFRO7BfpOwPGBQlxhAnCFZ5e1JDmBUMNcgNH8ggZCmMShIBgfFIB+imHRrNNdfHC94/SXQGSHi9UwT0GQ5SQy6qqdmK03efYPDMa1eAIBPq6aYxcSz8VqWYRIXQLjYhr/D6GcKxkheya1hBUQbJa57E3v2WOWwIaRaFHSrBYHIZjbCoWWiFRnLLBcC782Pu0XV+18ovIoTyDwZ3mElazK3jkWT2fgKrO/wx69VBwwoRFfgBiCi/IECEWQYXrEUirFdVTwiv0m9ykNM59aq5E6JvxtvVkgVQvCMy0l4mlFWqMT4hK6SBY0d0bXr5zxQRKow50EutPLceKebiJIyp5Wptz74edvOceGXqwfcyuqV/cdEA+ilF9hTbqht8OUsplhgSDxupGSMrJ3ZB9vegdsGIqRVIq1RLLTjeW0wPmdKnd3mCN+3Qze/GO89mRfijJETICmbPpGG+bS9DgU705OsRHu7V2YPon5rBQ/mJdrwRnl6oFKb0krsTt95NQZ6gxUxPDSMKuEPPpYjFCpstqgdcHNnHAqQtEOYDokYqqUCcV1EReLDy/LKBlnD1t2ohCFuiDGTn25E1c8x/zl7J1yCnb/IoTt95jdTP+xBHuGmxhJjcxSvryWAljKBStJeZnbtWSnj/aM4wjpca2KE0Rz5/OssbwBqs+oWtZQZhp/V8V+kw7gtYIpmPWj/C3llPbXFWulKiUh1pF0oQZlOOPmrFdRyir1EZRGrBS0qKoHVIBIchc/PsnrSFc4UVdoozjncSJyAHJ4A2ieAr+f48wEIA8+n8h05lTFMKqWCxsTMjdWchr0pkdBhLEjP3YpETMpdRdkxU2NTgNwX213J3yUCGTSGy87Os61/bUE+ymnDU6LOC/htwcaBWVzBArM/0d5N0cmkXU4ArUlB56e/fMnSjGCYCqLaYdbwo0fPCrfXzgxX4iKIvYX9+GLHTG7ocU1+Vtuhwhd6NaQEJEP6EX1p09yQS9JrTXm5/x7RVzoMn+dH5G0GcsJ4IuSP6ls/3NApeIFV8rVIReSPQidsdSGCI4xcWAINH5UO1xlB7eXc7RCsOsdKFnh00n+FP+yMmWYZIiVSYoRIuKLHTjkdJWiXruhxnG1cB0/OmMG9hhRZlRThnqDrkOqPA3unPpYwnXMNwj8lBaFIjhdRN5xlBXVjlE5c+CY6NMdoVkS2HYij31yb8vTjEy78X7zVzoFovAw+j6Gq3MvvcxSbibEfoNZaYmhRUZKgoP7jpy5HPaG/Y7z/VG05hcksVL1PTDtK6Ok/0YwjRXe4R4NN7sWpqwEseFRXb9+pRsnjxg44OTYPKXACrnep8wUcP14upXjP9yvu64DSZPqxJr4ROn4i4l3lxwqBTs11mTm0aW/ivpqqEWFakaDhBmU1J1hrq4+Z/ls9V2LAxMMWn9SlGps4v8OQhoDgHjqVWMq9kW1BEz55BBnBDg/YqbbznO5VsAP6c6jP95D8oaBigi0GxVyqNvPRKkAJlDiwfII+/xMmRgUGXJdZrxY1XrB+6+FC2t8zQjCG5SU/1E+Jjp7ooCLJCOV2ua7E4Zqy1YiM9WUpS2Gt2e4ie+zp9GQQhWgQSUc9J64W09tlchSlsj08BDIrDJTzMwtE9+q3gEc63w370i3DitAdO7oSZK2GK6IqxrW+e70YVaZiycSVCiaGvXaYw93+Yz3yJ5WCvGc7qFHQohKM8iFUWTi8N1egXjCHy06gwQZPUM35T24dqmSNLw7AjY0qZPvpknMEV+gkogDmgXm/E4kSSovPQDMGVEajWYLhfc0I1eyYwQyM87c8U6xferwsfKBUi1Flb55MOk75dDcuklGJyjaazmjRymdyxCDNx+dWaMlQlos5bqg59OgPaXvK3IAYaOkLjaQtfJ7ja0frg3eSTwa8e9CJfOkUd4hEkwxAPs0YgVXqS4fWpgHD0JdTIqBFRMbKmxE1P3sdFFnSUQRLY741wGqhXD1TiqID/gUCHoQNhqpPeVJd9Kt2h5qfDxuabwdkalQ46ID3onpYVqjpMC9P1YqYeyDuEbG7UPKocGRKaLXwOYKo+dRYeOUg9IPBUpzHjQtvwom18igk6K/ZkmB7ioqNkpOf74Lk0JFNh//5xFn7VJEDKJBdtAzdy6EPlRAk7aPFtVRVhztJi9y8I19MPo37Wh9tIN1lEhAdQXuyrxZIumgNNIyqqD3/Ckvy1SexH2V9wxOcyRDUi1uGdeZ5FimiCxV2u2nFfPDGMH4HdWZu9ZO8Y6dCbenUe+z+VTTz5Ic8CLlCjR69LMpd6GJLkU3/2h948eCLJWJGuJHPfGE7M68W+IoRXMdy6g9cg+oZEHUpndw64LgX3/1RLcGjZ93ekf9nwPcq8U9cffZ0/zoQsTv9W3V6iIksLfkB/Zp4/TlRVceDRajjws92lY6tqn1Exw96hv8YWQ8hrrVyC3SJsLPbIgc4Rna/Fsbn0UBKM+fwhMlcapf7Tn/6Pxj/656vfJvv7NP8a4OIK4WAg3UkEdVW5VGBwNnhMSM380cXFlAzHkgPhNHN1ILXGapzatHwROSWgkXHLj4QAelqFFTCipAPEa1Z0ihE+X3KaKMwopaodM8fhzBiQlJCrXP+W44ZSJkkPVSqsZz/nbS6sC95Py0qcawzlw9pjozXbORwQOBQimeYkfCJ8QYdV/+Bw==";
@@ -0,0 +1,58 @@
+import { configDigest, type BoardMode, type CellColor } from "@/lib/engine";
+import type { CellReveals } from "@/lib/game";
+import type { HistorySnapshot } from "@/lib/history";
+
+// What operatives may see: only cells that have been revealed carry a color
+export type PublicBoard = {
+  mode: BoardMode;
+  gridSize: number;
+  digest: string;
+  colors: (CellColor | null)[];
+  words: string[];
+};
+
+export type DisplayMessage =
+  | { type: "board"; board: PublicBoard }
+  // Sent by a display window when it opens so the spymaster window answers with the board
+  | { type: "hello" };
+
+export type DisplayChannel = {
+  post: (message: DisplayMessage) => void;
+  close: () => void;
+};
+
+const CHANNEL_NAME = "codenames-helper:display";
+export const DISPLAY_PARAM = "display";
+
+// Duet marks are per key card; the table shows an agent or assassin once
+// anyone hit one, and a bystander once a guess landed on a neutral.
+function publicColor(marks: CellReveals, cell: CellColor, mode: BoardMode): CellColor | null {
+  if (marks.length === 0) return null;
+  if (mode === "classic") return cell;
+  for (const color of ["green", "black", "yellow"] as const) {
+    if (marks.some((m) => m.color === color)) return color;
+  }
+  return null;
+}
+
+export function publicBoard(snapshot: HistorySnapshot, words: string[]): PublicBoard {
+  const { config, cells, reveals } = snapshot;
+  return {
+    mode: config.mode,
+    gridSize: config.gridSize,
+    digest: configDigest(config),
+    colors: reveals.map((marks, i) => publicColor(marks, cells[i], config.mode)),
+    words,
+  };
+}
+
+// Null where BroadcastChannel is unavailable (old browsers, server render)
+export function openDisplayChannel(onMessage: (message: DisplayMessage) => void): DisplayChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<DisplayMessage>) => onMessage(e.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
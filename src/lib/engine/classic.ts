@@ -0,0 +1,30 @@
+import { clamp } from "@/lib/math";
+import { seedToRng, shuffleArraySeeded } from "./random";
+import type { BoardMode, CellColor, Team } from "./types";
+
+export function classicStartingTeam(seed: string): Team {
+  return seedToRng(seed + "|start")() < 0.5 ? "red" : "blue";
+}
+
+export function generateClassic(numAgents: number, numAssassins: number, totalCells: number, seed: string): CellColor[] {
+  const starting = classicStartingTeam(seed);
+  const other: Team = starting === "red" ? "blue" : "red";
+  const secondAgents = clamp(numAgents, 0, Math.floor((totalCells - 1) / 2));
+  const firstAgents = secondAgents + 1;
+  const assassins = clamp(numAssassins, 0, totalCells - firstAgents - secondAgents);
+  const bystanders = totalCells - firstAgents - secondAgents - assassins;
+
+  const cells: CellColor[] = [];
+  for (let i = 0; i < firstAgents; i += 1) cells.push(starting);
+  for (let i = 0; i < secondAgents; i += 1) cells.push(other);
+  for (let i = 0; i < assassins; i += 1) cells.push("black");
+  for (let i = 0; i < bystanders; i += 1) cells.push("yellow");
+
+  const rng = seedToRng(seed + "|classic");
+  return shuffleArraySeeded(cells, rng);
+}
+
+// Cells a mode needs for its agents and assassins, used to keep counts on the grid
+export function cellsUsed(mode: BoardMode, numGood: number, numBad: number): number {
+  return mode === "classic" ? 2 * numGood + 1 + numBad : numGood + numBad;
+}
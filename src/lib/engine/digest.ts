@@ -0,0 +1,19 @@
+import { xfnv1a } from "./random";
+import type { BoardConfig } from "./types";
+
+// Create a 3-letter digest of the configuration (excluding `side`).
+// Version 1 Duet boards keep their original key so digests of existing seeds don't change.
+export function configDigest(cfg: BoardConfig): string {
+  const base = `${cfg.gridSize}|${cfg.numGood}|${cfg.numBad}|${cfg.overlapGreens}|${cfg.seed}`;
+  const overlaps = cfg.mode === "duet" && cfg.overlaps ? `|${cfg.overlaps.blackBlack}|${cfg.overlaps.blackGreen}|${cfg.overlaps.blackYellow}` : "";
+  const versioned = cfg.algorithmVersion === 1 ? base : `v${cfg.algorithmVersion}|${base}${overlaps}`;
+  const key = cfg.mode === "classic" ? `classic|${versioned}` : versioned;
+  const h = xfnv1a(key);
+  let n = h >>> 0;
+  let out = "";
+  for (let i = 0; i < 3; i += 1) {
+    out += String.fromCharCode(65 + (n % 26));
+    n = Math.floor(n / 26);
+  }
+  return out;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import boards from "./__fixtures__/boards.json";
+import { configDigest, generateGrid, startingTeam, type BoardConfig, type CellColor } from "@/lib/engine";
+
+// Recorded boards for every frozen algorithm version. A failure here means
+// a change altered the output for seeds players already share: put the change
+// in a new version instead of regenerating these.
+type GoldenBoard = {
+  config: BoardConfig;
+  cells: string;
+  digest: string;
+  startingTeam: string | null;
+};
+
+const LETTERS: Record<CellColor, string> = { green: "g", black: "k", yellow: "y", red: "r", blue: "b" };
+
+function label({ config }: GoldenBoard): string {
+  return `v${config.algorithmVersion} ${config.mode} ${config.gridSize}×${config.gridSize} side ${config.side} seed "${config.seed}"`;
+}
+
+describe("golden boards", () => {
+  const golden = boards as GoldenBoard[];
+
+  it("covers every version, mode and grid size", () => {
+    for (const version of [1, 2]) {
+      for (const mode of ["duet", "classic"]) {
+        const sizes = new Set(golden.filter((b) => b.config.algorithmVersion === version && b.config.mode === mode).map((b) => b.config.gridSize));
+        expect(sizes.size).toBe(9);
+        expect(golden.some((b) => b.config.algorithmVersion === version && b.config.mode === mode && b.config.seed === "")).toBe(true);
+      }
+    }
+  });
+
+  it.each(golden.map((b) => [label(b), b] as const))("%s", (_, board) => {
+    expect(generateGrid(board.config).map((c) => LETTERS[c]).join("")).toBe(board.cells);
+    expect(configDigest(board.config)).toBe(board.digest);
+    expect(startingTeam(board.config)).toBe(board.startingTeam);
+  });
+});
+
+describe("empty seeds", () => {
+  // The original app dealt an empty seed field as "default" before calling
+  // the generator, so every version keeps doing so
+  it.each([1, 2] as const)("deal version %i boards as the seed \"default\"", (algorithmVersion) => {
+    const config: BoardConfig = { algorithmVersion, mode: "duet", gridSize: 5, numGood: 9, numBad: 3, seed: "", side: "B", overlapGreens: 3 };
+    expect(generateGrid(config)).toEqual(generateGrid({ ...config, seed: "default" }));
+  });
+});
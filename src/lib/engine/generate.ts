@@ -0,0 +1,42 @@
+import { classicStartingTeam, generateClassic } from "./classic";
+import { overlapCounts } from "./overlaps";
+import * as v1 from "./v1";
+import * as v2 from "./v2";
+import type { AlgorithmVersion, BoardConfig, CellColor, Side, Team } from "./types";
+
+export const LATEST_ALGORITHM_VERSION: AlgorithmVersion = 2;
+
+export const SUPPORTED_ALGORITHM_VERSIONS: readonly AlgorithmVersion[] = [1, 2];
+
+export function isSupportedAlgorithmVersion(value: unknown): value is AlgorithmVersion {
+  return SUPPORTED_ALGORITHM_VERSIONS.includes(value as AlgorithmVersion);
+}
+
+export function oppositeSide(side: Side): Side {
+  return side === "A" ? "B" : "A";
+}
+
+export function generateGrid(config: BoardConfig): CellColor[] {
+  const totalCells = config.gridSize * config.gridSize;
+  // The original app swapped an empty seed for "default" before generating,
+  // so version 1 boards with an empty seed field have always been dealt this way
+  const seed = config.seed || "default";
+  switch (config.algorithmVersion) {
+    case 1:
+      if (config.mode === "classic") return generateClassic(config.numGood, config.numBad, totalCells, seed);
+      return config.side === "B"
+        ? v1.generateSideB(config.numGood, config.numBad, totalCells, seed, config.overlapGreens)
+        : v1.generateSideA(config.numGood, config.numBad, totalCells, seed);
+    case 2:
+      if (config.mode === "classic") return generateClassic(config.numGood, config.numBad, totalCells, seed);
+      return config.side === "B"
+        ? v2.generateSideB(overlapCounts(config), seed)
+        : v2.generateSideA(config.numGood, config.numBad, totalCells, seed);
+    default:
+      throw new Error(`Unsupported board algorithm version: ${String(config.algorithmVersion)}`);
+  }
+}
+
+export function startingTeam(config: BoardConfig): Team | null {
+  return config.mode === "classic" ? classicStartingTeam(config.seed || "default") : null;
+}
@@ -0,0 +1,16 @@
+export type { AlgorithmVersion, AssassinOverlaps, BoardConfig, BoardMode, CellColor, Side, Team, WordPackRef } from "./types";
+export { mulberry32, randomSeed, seedToRng, shuffleArraySeeded, xfnv1a } from "./random";
+export { generateSideA, generateSideB } from "./v1";
+export { LATEST_ALGORITHM_VERSION, SUPPORTED_ALGORITHM_VERSIONS, generateGrid, isSupportedAlgorithmVersion, oppositeSide, startingTeam } from "./generate";
+export { cellsUsed, classicStartingTeam, generateClassic } from "./classic";
+export {
+  defaultOverlaps,
+  normalizeOverlaps,
+  overlapCounts,
+  overlapMatrix,
+  validateOverlaps,
+  type OverlapCounts,
+  type OverlapMatrix,
+} from "./overlaps";
+export { configDigest } from "./digest";
+export { MAX_GRID_SIZE, MIN_GRID_SIZE, isCellColor, parseBoardConfig, type ConfigParseResult } from "./validate";
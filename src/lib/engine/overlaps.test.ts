@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { defaultOverlaps, normalizeOverlaps, overlapMatrix, validateOverlaps, type OverlapCounts } from "./overlaps";
+
+const STANDARD: OverlapCounts = {
+  numGood: 9,
+  numBad: 3,
+  totalCells: 25,
+  overlapGreens: 3,
+  overlaps: { blackBlack: 1, blackGreen: 1, blackYellow: 1 },
+};
+
+function rowTotal(row: { green: number; black: number; yellow: number }): number {
+  return row.green + row.black + row.yellow;
+}
+
+describe("overlapMatrix", () => {
+  it("lays out the printed Duet card", () => {
+    expect(overlapMatrix(STANDARD)).toEqual({
+      green: { green: 3, black: 1, yellow: 5 },
+      black: { green: 1, black: 1, yellow: 1 },
+      yellow: { green: 5, black: 1, yellow: 7 },
+    });
+  });
+
+  it("keeps each side's color counts in its rows and columns", () => {
+    const matrix = overlapMatrix({ ...STANDARD, totalCells: 36, numGood: 13, numBad: 4, overlapGreens: 4, overlaps: { blackBlack: 1, blackGreen: 1, blackYellow: 2 } });
+    expect(rowTotal(matrix.green)).toBe(13);
+    expect(rowTotal(matrix.black)).toBe(4);
+    expect(rowTotal(matrix.yellow)).toBe(19);
+    expect(matrix.green.green + matrix.black.green + matrix.yellow.green).toBe(13);
+    expect(matrix.green.black + matrix.black.black + matrix.yellow.black).toBe(4);
+  });
+});
+
+describe("validateOverlaps", () => {
+  it("accepts the printed card", () => {
+    expect(validateOverlaps(STANDARD)).toBeNull();
+  });
+
+  it.each([
+    ["a negative count", { overlapGreens: -1 }, "whole numbers"],
+    ["a fractional count", { overlaps: { blackBlack: 0.5, blackGreen: 1, blackYellow: 1.5 } }, "whole numbers"],
+    ["more agents and assassins than cells", { numGood: 20, numBad: 6 }, "don't fit"],
+    ["assassin overlaps that miss the assassin count", { overlaps: { blackBlack: 1, blackGreen: 1, blackYellow: 0 } }, "add up to the number of assassins (3)"],
+    ["more shared agents than agents", { overlapGreens: 9 }, "can't exceed the number of agents"],
+    ["too few bystanders for the leftovers", { totalCells: 16, overlapGreens: 0, overlaps: { blackBlack: 0, blackGreen: 0, blackYellow: 3 } }, "Not enough bystanders"],
+  ])("rejects %s", (_, change, message) => {
+    expect(validateOverlaps({ ...STANDARD, ...change })).toContain(message);
+  });
+});
+
+describe("normalizeOverlaps", () => {
+  it("leaves a feasible split alone", () => {
+    expect(normalizeOverlaps(STANDARD)).toEqual({ overlapGreens: 3, overlaps: STANDARD.overlaps });
+  });
+
+  it("refills the assassin overlaps after the assassin count grows", () => {
+    const result = normalizeOverlaps({ ...STANDARD, numBad: 5 });
+    expect(result.overlaps.blackBlack + result.overlaps.blackGreen + result.overlaps.blackYellow).toBe(5);
+    expect(validateOverlaps({ ...STANDARD, numBad: 5, ...result })).toBeNull();
+  });
+
+  // Sharing every agent and assassin always fits, so there is no count it can't fix
+  it("always returns a combination validateOverlaps accepts", () => {
+    for (let gridSize = 3; gridSize <= 6; gridSize += 1) {
+      const totalCells = gridSize * gridSize;
+      for (let numGood = 0; numGood <= totalCells; numGood += 1) {
+        for (let numBad = 0; numGood + numBad <= totalCells; numBad += 1) {
+          for (const overlapGreens of [0, 3, numGood]) {
+            const counts = { numGood, numBad, totalCells, overlapGreens, overlaps: defaultOverlaps(numBad) };
+            expect(validateOverlaps({ ...counts, ...normalizeOverlaps(counts) })).toBeNull();
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { clamp } from "@/lib/math";
+import type { AssassinOverlaps, BoardConfig } from "./types";
+
+export type OverlapCounts = {
+  numGood: number;
+  numBad: number;
+  totalCells: number;
+  overlapGreens: number;
+  overlaps: AssassinOverlaps;
+};
+
+// How many cells of each A color become each B color. Both key cards have the
+// same number of agents, assassins and bystanders, so the matrix is fixed by
+// the four overlap counts.
+export type OverlapMatrix = {
+  green: { green: number; black: number; yellow: number };
+  black: { green: number; black: number; yellow: number };
+  yellow: { green: number; black: number; yellow: number };
+};
+
+export function overlapMatrix(counts: OverlapCounts): OverlapMatrix {
+  const { numGood, numBad, totalCells, overlapGreens } = counts;
+  const { blackBlack, blackGreen, blackYellow } = counts.overlaps;
+  const numNeutral = totalCells - numGood - numBad;
+  const greenYellow = numGood - overlapGreens - blackGreen;
+  return {
+    green: { green: overlapGreens, black: blackGreen, yellow: greenYellow },
+    black: { green: blackGreen, black: blackBlack, yellow: blackYellow },
+    yellow: { green: greenYellow, black: blackYellow, yellow: numNeutral - greenYellow - blackYellow },
+  };
+}
+
+export function overlapCounts(config: BoardConfig): OverlapCounts {
+  return {
+    numGood: config.numGood,
+    numBad: config.numBad,
+    totalCells: config.gridSize * config.gridSize,
+    overlapGreens: config.overlapGreens,
+    overlaps: config.overlaps ?? defaultOverlaps(config.numBad),
+  };
+}
+
+// Returns a reason the overlaps can't be laid out, or null if they can
+export function validateOverlaps(counts: OverlapCounts): string | null {
+  const { numGood, numBad, totalCells, overlapGreens, overlaps } = counts;
+  const values = [overlapGreens, overlaps.blackBlack, overlaps.blackGreen, overlaps.blackYellow];
+  if (!values.every((v) => Number.isInteger(v) && v >= 0)) return "Overlap counts must be whole numbers of at least 0.";
+  if (numGood + numBad > totalCells) return "Good and bad counts don't fit on the grid.";
+  if (overlaps.blackBlack + overlaps.blackGreen + overlaps.blackYellow !== numBad) {
+    return `Assassin overlaps must add up to the number of assassins (${numBad}).`;
+  }
+  const matrix = overlapMatrix(counts);
+  if (matrix.green.yellow < 0) return "Green∩green plus assassin∩green can't exceed the number of agents.";
+  if (matrix.yellow.yellow < 0) return "Not enough bystanders to hold the leftover agents and assassins of the other side.";
+  return null;
+}
+
+export function defaultOverlaps(numBad: number): AssassinOverlaps {
+  // The printed Duet cards split their three assassins evenly
+  const blackBlack = Math.round(numBad / 3);
+  const blackGreen = Math.round(numBad / 3);
+  return { blackBlack, blackGreen, blackYellow: numBad - blackBlack - blackGreen };
+}
+
+// Pull overlaps back into a feasible combination after a count changed,
+// keeping as much of the requested split as possible.
+export function normalizeOverlaps(counts: OverlapCounts): { overlapGreens: number; overlaps: AssassinOverlaps } {
+  const { numGood, numBad, totalCells } = counts;
+  const numNeutral = totalCells - numGood - numBad;
+  let blackBlack = clamp(counts.overlaps.blackBlack, 0, numBad);
+  const blackGreen = clamp(counts.overlaps.blackGreen, 0, Math.min(numBad - blackBlack, numGood));
+  let blackYellow = numBad - blackBlack - blackGreen;
+  let overlapGreens = clamp(counts.overlapGreens, 0, numGood - blackGreen);
+
+  let deficit = numGood - overlapGreens - blackGreen + blackYellow - numNeutral;
+  if (deficit > 0) {
+    const moreGreens = Math.min(deficit, numGood - blackGreen - overlapGreens);
+    overlapGreens += moreGreens;
+    deficit -= moreGreens;
+  }
+  if (deficit > 0) {
+    const moved = Math.min(deficit, blackYellow);
+    blackYellow -= moved;
+    blackBlack += moved;
+  }
+  return { overlapGreens, overlaps: { blackBlack, blackGreen, blackYellow } };
+}
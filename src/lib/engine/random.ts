@@ -0,0 +1,49 @@
+export function xfnv1a(str: string): number {
+  let h = 2166136261 >>> 0;
+  for (let i = 0; i < str.length; i += 1) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function mulberry32(a: number): () => number {
+  let t = a >>> 0;
+  return function () {
+    t += 0x6D2B79F5;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function seedToRng(seed: string): () => number {
+  const h = xfnv1a(seed || "default");
+  return mulberry32(h);
+}
+
+export function shuffleArraySeeded<T>(array: T[], rnd: () => number): T[] {
+  const result = array.slice();
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rnd() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function randomSeed(): string {
+  let n: number;
+  try {
+    const a = new Uint32Array(1);
+    if (typeof window !== "undefined" && window.crypto && window.crypto.getRandomValues) {
+      window.crypto.getRandomValues(a);
+      n = a[0] >>> 0;
+    } else {
+      n = Math.floor(Math.random() * 0xffffffff);
+    }
+  } catch {
+    n = Math.floor(Math.random() * 0xffffffff);
+  }
+  const mod = n % Math.pow(36, 4);
+  return mod.toString(36).padStart(4, "0");
+}
@@ -0,0 +1,47 @@
+// Duet key cards use green/yellow/black; classic ones use red/blue/yellow/black
+export type CellColor = "yellow" | "green" | "black" | "red" | "blue";
+
+export type Side = "A" | "B";
+
+export type BoardMode = "duet" | "classic";
+
+export type Team = "red" | "blue";
+
+// Each version pins one exact generation algorithm. Bump it (and keep the old
+// implementation around) whenever a change would alter the output for a seed.
+export type AlgorithmVersion = 1 | 2;
+
+// Identifies the word pack a board deals from. The hash covers the pack's
+// words in order, so two devices only deal the same words if both match.
+export type WordPackRef = {
+  id: string;
+  hash: string;
+};
+
+// Cross-side assassin counts for Duet boards from version 2 on. Each applies
+// in both directions: `blackGreen` assassins on A are agents on B and the
+// same number of assassins on B are agents on A. The three always add up to
+// `numBad`; green∩green stays in `overlapGreens`.
+export type AssassinOverlaps = {
+  blackBlack: number;
+  blackGreen: number;
+  blackYellow: number;
+};
+
+// In classic mode `numGood` is the agent count of the second team (the
+// starting team gets one more), `numBad` the assassins, and `side` and
+// `overlapGreens` are unused.
+export type BoardConfig = {
+  algorithmVersion: AlgorithmVersion;
+  mode: BoardMode;
+  gridSize: number;
+  numGood: number;
+  numBad: number;
+  seed: string;
+  side: Side;
+  overlapGreens: number;
+  // Only used by Duet boards from version 2 on
+  overlaps?: AssassinOverlaps;
+  // Absent on boards that deal from the built-in pack
+  wordPack?: WordPackRef;
+};
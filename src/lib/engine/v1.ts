@@ -0,0 +1,66 @@
+import { clamp } from "@/lib/math";
+import { seedToRng, shuffleArraySeeded } from "./random";
+import type { CellColor } from "./types";
+
+// Algorithm version 1. Frozen: seeds shared with this version must keep
+// producing the same key cards, so fixes belong in a new version instead.
+
+export function generateSideA(numGood: number, numBad: number, totalCells: number, seed: string): CellColor[] {
+  const clampedGood = clamp(numGood, 0, totalCells);
+  const clampedBad = clamp(numBad, 0, totalCells - clampedGood);
+  const numNeutral = totalCells - clampedGood - clampedBad;
+
+  const cells: CellColor[] = [];
+  for (let i = 0; i < clampedGood; i += 1) cells.push("green");
+  for (let i = 0; i < clampedBad; i += 1) cells.push("black");
+  for (let i = 0; i < numNeutral; i += 1) cells.push("yellow");
+
+  const rng = seedToRng(seed + "|A");
+  return shuffleArraySeeded(cells, rng);
+}
+
+export function generateSideB(numGood: number, numBad: number, totalCells: number, seed: string, overlapGreens: number): CellColor[] {
+  const base = generateSideA(numGood, numBad, totalCells, seed);
+  let pool: CellColor[] = base.slice();
+
+  const greenIndices: number[] = [];
+  for (let i = 0; i < base.length; i += 1) {
+    if (base[i] === "green") greenIndices.push(i);
+  }
+  const pinsToSelect = Math.min(overlapGreens, greenIndices.length);
+  const rngPins = seedToRng(seed + "|pins");
+  const pinnedIndices = shuffleArraySeeded(greenIndices, rngPins).slice(0, pinsToSelect);
+  const pinnedIndexSet = new Set(pinnedIndices);
+
+  const result: (CellColor | undefined)[] = new Array(totalCells).fill(undefined);
+
+  for (const idx of pinnedIndices) {
+    result[idx] = "green";
+    const poolGreenIdx = pool.findIndex((c) => c === "green");
+    if (poolGreenIdx !== -1) pool.splice(poolGreenIdx, 1);
+  }
+
+  const rngPool1 = seedToRng(seed + "|pool1");
+  pool = shuffleArraySeeded(pool, rngPool1);
+
+  for (let i = 0; i < base.length; i += 1) {
+    if (base[i] === "green" && !pinnedIndexSet.has(i)) {
+      let takeIdx = pool.findIndex((c) => c !== "green");
+      if (takeIdx === -1) takeIdx = 0;
+      const item = pool.splice(takeIdx, 1)[0];
+      result[i] = item;
+    }
+  }
+
+  const rngPool2 = seedToRng(seed + "|pool2");
+  pool = shuffleArraySeeded(pool, rngPool2);
+
+  for (let i = 0; i < result.length; i += 1) {
+    if (result[i] === undefined) {
+      const item = pool.shift();
+      result[i] = (item ?? "yellow");
+    }
+  }
+
+  return result as CellColor[];
+}
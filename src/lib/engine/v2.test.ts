@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { normalizeOverlaps, overlapMatrix, type OverlapCounts } from "./overlaps";
+import { generateSideA, generateSideB } from "./v2";
+
+const COLORS = ["green", "black", "yellow"] as const;
+const SEEDS = ["", "default", "golden", "k3v9", "campaign-lisbon-1", "ZZZZ", "a|b", "0000", "seed with spaces", "ünïcode"];
+
+function counted(counts: OverlapCounts, seed: string) {
+  const a = generateSideA(counts.numGood, counts.numBad, counts.totalCells, seed);
+  const b = generateSideB(counts, seed);
+  const seen = {
+    green: { green: 0, black: 0, yellow: 0 },
+    black: { green: 0, black: 0, yellow: 0 },
+    yellow: { green: 0, black: 0, yellow: 0 },
+  };
+  a.forEach((color, i) => {
+    if (color === "green" || color === "black" || color === "yellow") {
+      const other = b[i];
+      if (other === "green" || other === "black" || other === "yellow") seen[color][other] += 1;
+    }
+  });
+  return { a, b, seen };
+}
+
+function feasible(totalCells: number, numGood: number, numBad: number, overlapGreens: number, blackBlack: number, blackGreen: number): OverlapCounts {
+  const counts = { totalCells, numGood, numBad, overlapGreens, overlaps: { blackBlack, blackGreen, blackYellow: numBad - blackBlack - blackGreen } };
+  return { ...counts, ...normalizeOverlaps(counts) };
+}
+
+const LAYOUTS: [string, OverlapCounts][] = [
+  ["the printed card", feasible(25, 9, 3, 3, 1, 1)],
+  ["no shared agents", feasible(25, 9, 3, 0, 0, 0)],
+  ["every assassin shared", feasible(25, 9, 3, 3, 3, 0)],
+  ["assassins over agents", feasible(25, 9, 3, 2, 0, 3)],
+  ["a 6×6 grid", feasible(36, 13, 4, 4, 1, 1)],
+  ["a crowded 4×4 grid", feasible(16, 7, 3, 5, 1, 1)],
+  ["a 10×10 grid", feasible(100, 30, 8, 10, 2, 3)],
+];
+
+describe("v2.generateSideB", () => {
+  it.each(LAYOUTS)("puts exactly the requested counts in each overlap cell for %s", (_, counts) => {
+    const matrix = overlapMatrix(counts);
+    for (const seed of SEEDS) {
+      const { b, seen } = counted(counts, seed);
+      expect(b).toHaveLength(counts.totalCells);
+      for (const from of COLORS) {
+        for (const to of COLORS) expect(seen[from][to], `${from}→${to} for seed "${seed}"`).toBe(matrix[from][to]);
+      }
+    }
+  });
+
+  it("gives side B the same number of agents and assassins as side A", () => {
+    const counts = LAYOUTS[0][1];
+    for (const seed of SEEDS) {
+      const { b } = counted(counts, seed);
+      expect(b.filter((c) => c === "green")).toHaveLength(counts.numGood);
+      expect(b.filter((c) => c === "black")).toHaveLength(counts.numBad);
+    }
+  });
+
+  it("deals a different layout for each seed", () => {
+    const layouts = new Set(SEEDS.map((seed) => generateSideB(LAYOUTS[0][1], seed).join()));
+    expect(layouts.size).toBe(SEEDS.length);
+  });
+});
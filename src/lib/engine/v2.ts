@@ -0,0 +1,31 @@
+import { overlapMatrix, type OverlapCounts } from "./overlaps";
+import { seedToRng, shuffleArraySeeded } from "./random";
+import type { CellColor } from "./types";
+import { generateSideA } from "./v1";
+
+// Algorithm version 2. Side A is unchanged from version 1; side B is laid out
+// from explicit cross-side counts instead of a leftover pool shuffle.
+
+export { generateSideA };
+
+export function generateSideB(counts: OverlapCounts, seed: string): CellColor[] {
+  const base = generateSideA(counts.numGood, counts.numBad, counts.totalCells, seed);
+  const matrix = overlapMatrix(counts);
+  const result: CellColor[] = new Array(counts.totalCells).fill("yellow");
+
+  for (const color of ["green", "black", "yellow"] as const) {
+    const indices: number[] = [];
+    base.forEach((c, i) => {
+      if (c === color) indices.push(i);
+    });
+    const shuffled = shuffleArraySeeded(indices, seedToRng(`${seed}|v2|${color}`));
+    const row = matrix[color];
+    let offset = 0;
+    for (const target of ["green", "black", "yellow"] as const) {
+      for (const idx of shuffled.slice(offset, offset + row[target])) result[idx] = target;
+      offset += row[target];
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,67 @@
+import { cellsUsed } from "./classic";
+import { isSupportedAlgorithmVersion } from "./generate";
+import { overlapCounts, validateOverlaps } from "./overlaps";
+import type { BoardConfig, CellColor } from "./types";
+
+export const MIN_GRID_SIZE = 2;
+export const MAX_GRID_SIZE = 10;
+
+export type ConfigParseResult =
+  | { ok: true; config: BoardConfig }
+  | { ok: false; error: string };
+
+const CELL_COLORS: CellColor[] = ["yellow", "green", "black", "red", "blue"];
+
+export function isCellColor(value: unknown): value is CellColor {
+  return CELL_COLORS.includes(value as CellColor);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// Validate an untrusted config (from a link, a file, another device...).
+// Counts are rejected rather than clamped so a bad payload never silently
+// turns into a different board.
+export function parseBoardConfig(value: unknown): ConfigParseResult {
+  if (!value || typeof value !== "object") return { ok: false, error: "Config is missing." };
+  const raw = value as Record<string, unknown>;
+
+  if (!isSupportedAlgorithmVersion(raw.algorithmVersion)) {
+    return { ok: false, error: `Unsupported algorithm version "${String(raw.algorithmVersion)}". Update the app to open this board.` };
+  }
+  // Links and saves from before classic mode existed are Duet boards
+  const mode = raw.mode ?? "duet";
+  if (mode !== "duet" && mode !== "classic") return { ok: false, error: `Unknown board mode "${String(mode)}".` };
+  const { gridSize, numGood, numBad, overlapGreens, seed, side } = raw;
+  if (!isNonNegativeInteger(gridSize) || gridSize < MIN_GRID_SIZE || gridSize > MAX_GRID_SIZE) {
+    return { ok: false, error: `Grid size must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}.` };
+  }
+  if (!isNonNegativeInteger(numGood) || !isNonNegativeInteger(numBad) || cellsUsed(mode, numGood, numBad) > gridSize * gridSize) {
+    return { ok: false, error: "Good and bad counts don't fit on the grid." };
+  }
+  if (!isNonNegativeInteger(overlapGreens) || overlapGreens > numGood) {
+    return { ok: false, error: "Overlap greens can't exceed the number of good cells." };
+  }
+  if (typeof seed !== "string") return { ok: false, error: "Seed is missing." };
+  if (side !== "A" && side !== "B") return { ok: false, error: "Side must be A or B." };
+
+  const config: BoardConfig = { algorithmVersion: raw.algorithmVersion, mode, gridSize, numGood, numBad, overlapGreens, seed, side };
+  if (raw.algorithmVersion >= 2 && mode === "duet") {
+    const overlaps = raw.overlaps as Record<string, unknown> | undefined;
+    if (!overlaps || !isNonNegativeInteger(overlaps.blackBlack) || !isNonNegativeInteger(overlaps.blackGreen) || !isNonNegativeInteger(overlaps.blackYellow)) {
+      return { ok: false, error: "Assassin overlaps are missing." };
+    }
+    config.overlaps = { blackBlack: overlaps.blackBlack, blackGreen: overlaps.blackGreen, blackYellow: overlaps.blackYellow };
+    const error = validateOverlaps(overlapCounts(config));
+    if (error) return { ok: false, error };
+  }
+  if (raw.wordPack !== undefined) {
+    const pack = raw.wordPack as Record<string, unknown> | null;
+    if (!pack || typeof pack.id !== "string" || typeof pack.hash !== "string") {
+      return { ok: false, error: "Word pack reference is malformed." };
+    }
+    config.wordPack = { id: pack.id, hash: pack.hash };
+  }
+  return { ok: true, config };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { applyGuess, canGuess, createDuetGame, endTurn, setClueGiver, type DuetKeys } from "./duet";
+
+// A small made-up board: agents at 0 and 1 on A, 1 and 2 on B
+const KEYS: DuetKeys = {
+  A: ["green", "green", "yellow", "black", "yellow"],
+  B: ["yellow", "green", "green", "yellow", "black"],
+};
+
+const RULES = { timerTokens: 3, mistakesAllowed: 1 };
+
+describe("timer tokens", () => {
+  it("spends a token on each turn, passing the clue to the partner", () => {
+    const game = endTurn(createDuetGame(RULES), KEYS);
+    expect(game).toMatchObject({ turn: 2, tokensLeft: 2, clueGiver: "B", status: "playing" });
+  });
+
+  it("goes to sudden death when the last token is spent", () => {
+    const game = endTurn(endTurn(endTurn(createDuetGame(RULES), KEYS), KEYS), KEYS);
+    expect(game).toMatchObject({ tokensLeft: 0, status: "suddenDeath" });
+    expect(endTurn(game, KEYS)).toBe(game);
+  });
+
+  it("keeps the clue with a side whose partner has no agents left to find", () => {
+    const guesses = [
+      { index: 1, clueGiver: "A" as const, color: "green" as const, turn: 1 },
+      { index: 2, clueGiver: "A" as const, color: "green" as const, turn: 1 },
+    ];
+    expect(endTurn({ ...createDuetGame(RULES), guesses }, KEYS).clueGiver).toBe("A");
+  });
+});
+
+describe("applyGuess", () => {
+  it("ends the turn on a bystander and counts the mistake", () => {
+    const game = applyGuess(createDuetGame(RULES), KEYS, 2);
+    expect(game).toMatchObject({ mistakes: 1, turn: 2, clueGiver: "B", tokensLeft: 2, status: "playing" });
+  });
+
+  it("loses once the mistakes go over the limit", () => {
+    const game = applyGuess(applyGuess(createDuetGame(RULES), KEYS, 2), KEYS, 0);
+    expect(game).toMatchObject({ mistakes: 2, status: "lost", lossReason: "mistakes" });
+  });
+
+  it("loses on an assassin", () => {
+    expect(applyGuess(createDuetGame(RULES), KEYS, 3)).toMatchObject({ status: "lost", lossReason: "assassin" });
+  });
+
+  it("loses on any miss in sudden death", () => {
+    const game = applyGuess({ ...createDuetGame(RULES), tokensLeft: 0, status: "suddenDeath" }, KEYS, 4);
+    expect(game).toMatchObject({ status: "lost", lossReason: "suddenDeath" });
+  });
+
+  it("wins once every agent on either key is found", () => {
+    let game = applyGuess(createDuetGame(RULES), KEYS, 0);
+    game = applyGuess(game, KEYS, 1);
+    expect(game.status).toBe("playing");
+    game = applyGuess(endTurn(game, KEYS), KEYS, 2);
+    expect(game.status).toBe("won");
+  });
+});
+
+describe("canGuess", () => {
+  it("keeps a bystander open for the other key but not an agent", () => {
+    const game = applyGuess(applyGuess(createDuetGame(RULES), KEYS, 0), KEYS, 4);
+    expect(game.clueGiver).toBe("B");
+    expect(canGuess(game, 0)).toBe(false);
+    expect(canGuess(game, 4)).toBe(true);
+    expect(canGuess(endTurn(game, KEYS), 4)).toBe(false);
+  });
+
+  it("allows nothing once the game is over", () => {
+    const game = applyGuess(createDuetGame(RULES), KEYS, 3);
+    expect(canGuess(game, 0)).toBe(false);
+    expect(applyGuess(game, KEYS, 0)).toBe(game);
+  });
+});
+
+describe("setClueGiver", () => {
+  it("lets either side give the first clue or guess in sudden death, and no one else", () => {
+    expect(setClueGiver(createDuetGame(RULES), "B").clueGiver).toBe("B");
+    const started = endTurn(createDuetGame(RULES), KEYS);
+    expect(setClueGiver(started, "A")).toBe(started);
+    expect(setClueGiver({ ...started, status: "suddenDeath" }, "A").clueGiver).toBe("A");
+  });
+});
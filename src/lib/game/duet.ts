@@ -0,0 +1,135 @@
+import { generateGrid, oppositeSide, type BoardConfig, type CellColor, type Side } from "@/lib/engine";
+
+export type DuetRules = {
+  timerTokens: number;
+  mistakesAllowed: number;
+};
+
+export const DEFAULT_DUET_RULES: DuetRules = { timerTokens: 9, mistakesAllowed: 9 };
+
+export type DuetStatus = "playing" | "suddenDeath" | "won" | "lost";
+
+export type DuetLossReason = "assassin" | "mistakes" | "suddenDeath";
+
+// `clueGiver` is the side whose key the guess was checked against
+export type DuetGuess = {
+  index: number;
+  clueGiver: Side;
+  color: CellColor;
+  turn: number;
+};
+
+export type DuetGame = {
+  rules: DuetRules;
+  turn: number;
+  clueGiver: Side;
+  tokensLeft: number;
+  mistakes: number;
+  guesses: DuetGuess[];
+  status: DuetStatus;
+  lossReason?: DuetLossReason;
+};
+
+export type DuetKeys = Record<Side, CellColor[]>;
+
+export function duetKeys(config: BoardConfig): DuetKeys {
+  return {
+    A: generateGrid({ ...config, side: "A" }),
+    B: generateGrid({ ...config, side: "B" }),
+  };
+}
+
+export function createDuetGame(rules: DuetRules = DEFAULT_DUET_RULES, firstClueGiver: Side = "A"): DuetGame {
+  return {
+    rules,
+    turn: 1,
+    clueGiver: firstClueGiver,
+    tokensLeft: rules.timerTokens,
+    mistakes: 0,
+    guesses: [],
+    status: rules.timerTokens > 0 ? "playing" : "suddenDeath",
+  };
+}
+
+export function isGameOver(game: DuetGame): boolean {
+  return game.status === "won" || game.status === "lost";
+}
+
+// Every cell that is an agent on at least one key; finding all of them wins
+export function agentTargets(keys: DuetKeys): Set<number> {
+  const targets = new Set<number>();
+  keys.A.forEach((c, i) => {
+    if (c === "green") targets.add(i);
+  });
+  keys.B.forEach((c, i) => {
+    if (c === "green") targets.add(i);
+  });
+  return targets;
+}
+
+export function agentsFound(game: DuetGame): Set<number> {
+  return new Set(game.guesses.filter((g) => g.color === "green").map((g) => g.index));
+}
+
+export function remainingAgentsFor(game: DuetGame, keys: DuetKeys, side: Side): number {
+  const found = agentsFound(game);
+  return keys[side].filter((c, i) => c === "green" && !found.has(i)).length;
+}
+
+// A card stays in play until it is found as an agent or has already been
+// checked against the current clue giver's key.
+export function canGuess(game: DuetGame, index: number): boolean {
+  if (isGameOver(game)) return false;
+  return !game.guesses.some((g) => g.index === index && (g.color === "green" || g.clueGiver === game.clueGiver));
+}
+
+function passTurn(game: DuetGame, keys: DuetKeys): DuetGame {
+  const tokensLeft = game.tokensLeft - 1;
+  // A player whose agents are all found has nothing left to clue
+  const next = oppositeSide(game.clueGiver);
+  const clueGiver = remainingAgentsFor(game, keys, next) > 0 ? next : game.clueGiver;
+  return {
+    ...game,
+    turn: game.turn + 1,
+    tokensLeft,
+    clueGiver,
+    status: tokensLeft <= 0 ? "suddenDeath" : "playing",
+  };
+}
+
+export function endTurn(game: DuetGame, keys: DuetKeys): DuetGame {
+  if (game.status !== "playing") return game;
+  return passTurn(game, keys);
+}
+
+export function applyGuess(game: DuetGame, keys: DuetKeys, index: number): DuetGame {
+  if (!canGuess(game, index)) return game;
+  const color = keys[game.clueGiver][index];
+  const guessed: DuetGame = {
+    ...game,
+    guesses: [...game.guesses, { index, clueGiver: game.clueGiver, color, turn: game.turn }],
+  };
+
+  if (color === "black") return { ...guessed, status: "lost", lossReason: "assassin" };
+
+  if (color === "green") {
+    const found = agentsFound(guessed);
+    for (const target of agentTargets(keys)) {
+      if (!found.has(target)) return guessed;
+    }
+    return { ...guessed, status: "won" };
+  }
+
+  if (game.status === "suddenDeath") return { ...guessed, status: "lost", lossReason: "suddenDeath" };
+  const mistakes = guessed.mistakes + 1;
+  if (mistakes > game.rules.mistakesAllowed) return { ...guessed, mistakes, status: "lost", lossReason: "mistakes" };
+  return passTurn({ ...guessed, mistakes }, keys);
+}
+
+// Either player may give the first clue. In sudden death there are no more
+// clues, so either player may guess on their partner's key.
+export function setClueGiver(game: DuetGame, side: Side): DuetGame {
+  const beforeFirstGuess = game.turn === 1 && game.guesses.length === 0 && game.status === "playing";
+  if (!beforeFirstGuess && game.status !== "suddenDeath") return game;
+  return { ...game, clueGiver: side };
+}
@@ -0,0 +1,30 @@
+export {
+  DEFAULT_DUET_RULES,
+  agentTargets,
+  agentsFound,
+  applyGuess,
+  canGuess,
+  createDuetGame,
+  duetKeys,
+  endTurn,
+  isGameOver,
+  remainingAgentsFor,
+  setClueGiver,
+  type DuetGame,
+  type DuetGuess,
+  type DuetKeys,
+  type DuetLossReason,
+  type DuetRules,
+  type DuetStatus,
+} from "./duet";
+export {
+  addMark,
+  emptyReveals,
+  isResolved,
+  isValidReveals,
+  keyColor,
+  revealsFromBooleans,
+  toggleMark,
+  type CellReveals,
+  type RevealMark,
+} from "./reveals";
@@ -0,0 +1,58 @@
+import { oppositeSide, type CellColor, type Side } from "@/lib/engine";
+
+// One guess on a card: `by` is the guessing side, `color` what the card is on
+// the key card of the other side (the one who gave the clue).
+export type RevealMark = {
+  by: Side;
+  color: CellColor;
+};
+
+export type CellReveals = RevealMark[];
+
+export function emptyReveals(totalCells: number): CellReveals[] {
+  return Array.from({ length: totalCells }, () => []);
+}
+
+// Color of a card as revealed on `key`'s key card, if it has been checked there
+export function keyColor(marks: CellReveals, key: Side): CellColor | undefined {
+  return marks.find((m) => m.by === oppositeSide(key))?.color;
+}
+
+// A card leaves play once it's found as an agent, hits an assassin or has been
+// checked against both key cards. A card that is neutral for one side may
+// still be an agent for the other.
+export function isResolved(marks: CellReveals): boolean {
+  if (marks.some((m) => m.color !== "yellow")) return true;
+  return keyColor(marks, "A") !== undefined && keyColor(marks, "B") !== undefined;
+}
+
+export function addMark(reveals: CellReveals[], index: number, key: Side, color: CellColor): CellReveals[] {
+  const next = reveals.slice();
+  next[index] = [...reveals[index].filter((m) => m.by !== oppositeSide(key)), { by: oppositeSide(key), color }];
+  return next;
+}
+
+export function toggleMark(reveals: CellReveals[], index: number, key: Side, color: CellColor): CellReveals[] {
+  if (keyColor(reveals[index], key) === undefined) return addMark(reveals, index, key, color);
+  const next = reveals.slice();
+  next[index] = reveals[index].filter((m) => m.by !== oppositeSide(key));
+  return next;
+}
+
+// Saves from before per-side tracking only knew a card was revealed on the
+// key card that was on screen.
+export function revealsFromBooleans(revealed: boolean[], cells: CellColor[], key: Side): CellReveals[] {
+  return revealed.map((r, i) => (r ? [{ by: oppositeSide(key), color: cells[i] }] : []));
+}
+
+export function isValidReveals(value: unknown, totalCells: number): value is CellReveals[] {
+  return (
+    Array.isArray(value) &&
+    value.length === totalCells &&
+    value.every(
+      (marks) =>
+        Array.isArray(marks) &&
+        marks.every((m) => m && (m.by === "A" || m.by === "B") && typeof m.color === "string"),
+    )
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { buildClueLog, clueStats, guessesLeft, leftoversFor } from "./clues";
+import { replayHistory, snapshotFor } from "./timeline";
+import type { GameAction } from "./types";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "clues",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+
+const BASE = snapshotFor(CONFIG);
+const GREENS = BASE.cells.flatMap((color, i) => (color === "green" ? [i] : []));
+const YELLOW = BASE.cells.indexOf("yellow");
+
+function timeline(...actions: GameAction[]) {
+  return replayHistory({ base: BASE, entries: actions.map((action, i) => ({ ...action, at: i })) });
+}
+
+function clue(word: string, number: number, side: "A" | "B" = "A"): GameAction {
+  return { type: "clue", word, number, side };
+}
+
+function mark(index: number): GameAction {
+  return { type: "mark", index, key: "A", color: BASE.cells[index] };
+}
+
+const PLAY: GameAction = { type: "playMode", rules: { timerTokens: 9, mistakesAllowed: 9 } };
+
+describe("buildClueLog", () => {
+  it("files each mark under the clue before it", () => {
+    const log = buildClueLog(timeline(mark(GREENS[0]), clue("river", 2), mark(GREENS[1]), mark(YELLOW), clue("bank", 1, "B")));
+    expect(log).toEqual([
+      {
+        word: "river",
+        number: 2,
+        side: "A",
+        turn: null,
+        guesses: [
+          { index: GREENS[1], color: "green", hit: true },
+          { index: YELLOW, color: "yellow", hit: false },
+        ],
+      },
+      { word: "bank", number: 1, side: "B", turn: null, guesses: [] },
+    ]);
+  });
+
+  it("takes a card back off the clue when it is unmarked", () => {
+    const log = buildClueLog(timeline(clue("river", 2), mark(GREENS[0]), mark(GREENS[1]), mark(GREENS[0])));
+    expect(log[0].guesses).toEqual([{ index: GREENS[1], color: "green", hit: true }]);
+  });
+
+  it("records Duet guesses with the turn the clue was given on", () => {
+    const log = buildClueLog(timeline(PLAY, clue("river", 2), { type: "guess", index: GREENS[0] }));
+    expect(log).toEqual([{ word: "river", number: 2, side: "A", turn: 1, guesses: [{ index: GREENS[0], color: "green", hit: true }] }]);
+  });
+
+  it("starts over when a new game resets the board", () => {
+    const log = buildClueLog(timeline(clue("river", 2), mark(GREENS[0]), PLAY, clue("bank", 1)));
+    expect(log.map((entry) => entry.word)).toEqual(["bank"]);
+  });
+});
+
+describe("guessesLeft", () => {
+  it("allows the clue's number in Duet and one more on classic boards", () => {
+    const [entry] = buildClueLog(timeline(clue("river", 2), mark(GREENS[0])));
+    expect(guessesLeft(entry, "duet")).toBe(1);
+    expect(guessesLeft(entry, "classic")).toBe(2);
+    expect(leftoversFor(entry)).toBe(1);
+  });
+
+  it("ends the clue on a miss", () => {
+    const [entry] = buildClueLog(timeline(clue("river", 3), mark(GREENS[0]), mark(YELLOW)));
+    expect(guessesLeft(entry, "duet")).toBe(0);
+    expect(guessesLeft(entry, "classic")).toBe(0);
+  });
+
+  it("opens a guess again when a marked card is taken back", () => {
+    const [entry] = buildClueLog(timeline(clue("river", 1), mark(GREENS[0]), mark(GREENS[0])));
+    expect(guessesLeft(entry, "duet")).toBe(1);
+  });
+});
+
+describe("clueStats", () => {
+  it("counts clues and agents found for each giver", () => {
+    const log = buildClueLog(
+      timeline(clue("bank", 1, "B"), mark(GREENS[0]), clue("river", 2), mark(GREENS[1]), mark(GREENS[2]), clue("stone", 1), mark(YELLOW)),
+    );
+    expect(clueStats(log)).toEqual([
+      { giver: "A", clues: 2, found: 2 },
+      { giver: "B", clues: 1, found: 1 },
+    ]);
+  });
+});
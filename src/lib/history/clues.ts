@@ -0,0 +1,85 @@
+import type { BoardMode, CellColor, Side, Team } from "@/lib/engine";
+import { keyColor } from "@/lib/game";
+import type { Timeline } from "./types";
+
+export type ClueGuess = {
+  index: number;
+  color: CellColor;
+  // The card was one the clue could have meant
+  hit: boolean;
+};
+
+export type ClueLogEntry = {
+  word: string;
+  number: number;
+  side: Side;
+  team?: Team;
+  // Duet turn the clue was given on, null outside a Duet game
+  turn: number | null;
+  guesses: ClueGuess[];
+};
+
+export type ClueStats = {
+  // "A"/"B" in Duet, "red"/"blue" on classic boards
+  giver: Side | Team;
+  clues: number;
+  found: number;
+};
+
+// Duet clues point at agents, classic ones at the giving team's cards
+function isHit(entry: ClueLogEntry, color: CellColor): boolean {
+  return entry.team ? color === entry.team : color === "green";
+}
+
+// The clues given on the current board, each with the reveals made after it
+// and before the next one. Unmarking a card takes it back off the clue.
+export function buildClueLog(timeline: Timeline): ClueLogEntry[] {
+  const log: ClueLogEntry[] = [];
+  for (let i = timeline.boardStart; i < timeline.steps.length; i += 1) {
+    const action = timeline.steps[i].entry;
+    const before = timeline.states[i];
+    const after = timeline.states[i + 1];
+    const current = log[log.length - 1];
+    if (action.type === "clue") {
+      const { word, number, side, team } = action;
+      log.push({ word, number, side, ...(team ? { team } : {}), turn: before.game?.turn ?? null, guesses: [] });
+    } else if (action.type === "guess" && current) {
+      const guess = after.game?.guesses[after.game.guesses.length - 1];
+      if (guess) current.guesses.push({ index: guess.index, color: guess.color, hit: isHit(current, guess.color) });
+    } else if (action.type === "mark" && current) {
+      if (keyColor(before.reveals[action.index], action.key) === undefined) {
+        current.guesses.push({ index: action.index, color: action.color, hit: isHit(current, action.color) });
+      } else {
+        current.guesses = current.guesses.filter((g) => g.index !== action.index);
+      }
+    }
+  }
+  return log;
+}
+
+export function hitsFor(entry: ClueLogEntry): number {
+  return entry.guesses.filter((g) => g.hit).length;
+}
+
+// Guesses still open on a clue: classic allows one more than the number,
+// Duet goes on while guesses hit. Either way a miss ends it.
+export function guessesLeft(entry: ClueLogEntry, mode: BoardMode): number {
+  if (entry.guesses.some((g) => !g.hit)) return 0;
+  const allowed = mode === "classic" ? entry.number + 1 : entry.number;
+  return Math.max(0, allowed - entry.guesses.length);
+}
+
+// Cards an earlier clue pointed at that no guess has found yet
+export function leftoversFor(entry: ClueLogEntry): number {
+  return Math.max(0, entry.number - hitsFor(entry));
+}
+
+export function clueStats(log: ClueLogEntry[]): ClueStats[] {
+  const byGiver = new Map<Side | Team, ClueStats>();
+  for (const entry of log) {
+    const giver = entry.team ?? entry.side;
+    const stats = byGiver.get(giver) ?? { giver, clues: 0, found: 0 };
+    byGiver.set(giver, { ...stats, clues: stats.clues + 1, found: stats.found + hitsFor(entry) });
+  }
+  return [...byGiver.values()].sort((a, b) => a.giver.localeCompare(b.giver));
+}
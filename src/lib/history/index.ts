@@ -0,0 +1,16 @@
+export { buildClueLog, clueStats, guessesLeft, hitsFor, leftoversFor, type ClueGuess, type ClueLogEntry, type ClueStats } from "./clues";
+export type { GameAction, GameHistory, HistorySnapshot, LogEntry, Timeline, TimelineStep } from "./types";
+export {
+  COLOR_NAMES,
+  applyAction,
+  cellName,
+  describeAction,
+  describeChange,
+  isValidHistory,
+  recordAction,
+  recordRedo,
+  recordUndo,
+  replayHistory,
+  snapshotFor,
+  startHistory,
+} from "./timeline";
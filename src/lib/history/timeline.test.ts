@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { isValidHistory, recordAction, recordRedo, recordUndo, replayHistory, snapshotFor, startHistory } from "./timeline";
+import type { GameAction, GameHistory } from "./types";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "timeline",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+
+function mark(index: number): GameAction {
+  return { type: "mark", index, key: "A", color: "green" };
+}
+
+function record(history: GameHistory, ...actions: GameAction[]): GameHistory {
+  return actions.reduce((h, action, i) => {
+    const { states } = replayHistory(h);
+    return recordAction(h, states[states.length - 1], action, i);
+  }, history);
+}
+
+function marked(history: GameHistory): number[] {
+  const { states } = replayHistory(history);
+  return states[states.length - 1].reveals.flatMap((marks, i) => (marks.length > 0 ? [i] : []));
+}
+
+describe("replayHistory", () => {
+  it("moves undone steps aside and brings them back on redo", () => {
+    const history = recordUndo(record(startHistory(snapshotFor(CONFIG)), mark(1), mark(2)));
+    expect(marked(history)).toEqual([1]);
+    expect(replayHistory(history).undone.map((step) => step.entry)).toEqual([{ ...mark(2), at: 1 }]);
+    expect(marked(recordRedo(history))).toEqual([1, 2]);
+  });
+
+  it("drops undone steps once a new action is made", () => {
+    const history = record(recordUndo(record(startHistory(snapshotFor(CONFIG)), mark(1), mark(2))), mark(3));
+    expect(marked(history)).toEqual([1, 3]);
+    expect(replayHistory(recordRedo(history)).undone).toEqual([]);
+    expect(marked(recordRedo(history))).toEqual([1, 3]);
+  });
+
+  it("ignores undo and redo with nothing to move", () => {
+    const history = recordRedo(recordUndo(startHistory(snapshotFor(CONFIG))));
+    expect(replayHistory(history).steps).toEqual([]);
+  });
+
+  it("starts the board after the last step that dealt a new one", () => {
+    const history = record(startHistory(snapshotFor(CONFIG)), mark(1), { type: "seed", seed: "other" }, mark(2));
+    const timeline = replayHistory(history);
+    expect(timeline.steps.map((step) => step.resetsBoard)).toEqual([false, true, false]);
+    expect(timeline.boardStart).toBe(2);
+    expect(marked(history)).toEqual([2]);
+  });
+
+  it("keeps the board when only the side changes", () => {
+    const history = record(startHistory(snapshotFor(CONFIG)), mark(1), { type: "config", config: { ...CONFIG, side: "B" } });
+    const timeline = replayHistory(history);
+    expect(timeline.steps[1].resetsBoard).toBe(false);
+    expect(timeline.boardStart).toBe(0);
+    expect(marked(history)).toEqual([1]);
+  });
+});
+
+describe("recordAction", () => {
+  it("leaves the log alone for actions that change nothing", () => {
+    const history = startHistory(snapshotFor(CONFIG));
+    expect(record(history, { type: "endTurn" }, { type: "seed", seed: CONFIG.seed }, { type: "clue", word: " ", number: 1, side: "A" })).toBe(history);
+  });
+});
+
+describe("isValidHistory", () => {
+  const history = record(startHistory(snapshotFor(CONFIG)), mark(1));
+  const { base } = history;
+
+  it("accepts a log that replays", () => {
+    expect(isValidHistory(JSON.parse(JSON.stringify(history)))).toBe(true);
+  });
+
+  it("rejects anything that isn't a log", () => {
+    expect(isValidHistory(null)).toBe(false);
+    expect(isValidHistory({ base })).toBe(false);
+    expect(isValidHistory({ entries: [] })).toBe(false);
+  });
+
+  it("rejects a starting board that doesn't fit its config", () => {
+    expect(isValidHistory({ ...history, base: { ...base, config: { ...CONFIG, algorithmVersion: 7 } } })).toBe(false);
+    expect(isValidHistory({ ...history, base: { ...base, cells: base.cells.slice(1) } })).toBe(false);
+    expect(isValidHistory({ ...history, base: { ...base, cells: base.cells.map(() => "purple") } })).toBe(false);
+    expect(isValidHistory({ ...history, base: { ...base, reveals: undefined } })).toBe(false);
+    expect(isValidHistory({ ...history, base: { ...base, game: { turn: 1 } } })).toBe(false);
+  });
+
+  it("rejects entries that can't be replayed", () => {
+    const config = { ...CONFIG, algorithmVersion: 7 } as unknown as BoardConfig;
+    expect(isValidHistory({ base, entries: [{ type: "config", config, at: 0 }] })).toBe(false);
+  });
+});
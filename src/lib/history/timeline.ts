@@ -0,0 +1,247 @@
+import { configDigest, generateGrid, isCellColor, parseBoardConfig, type BoardConfig, type CellColor, type Side } from "@/lib/engine";
+import {
+  addMark,
+  applyGuess,
+  canGuess,
+  createDuetGame,
+  duetKeys,
+  emptyReveals,
+  endTurn,
+  isValidReveals,
+  keyColor,
+  setClueGiver,
+  toggleMark,
+  type CellReveals,
+  type DuetGame,
+} from "@/lib/game";
+import type { GameAction, GameHistory, HistorySnapshot, LogEntry, Timeline, TimelineStep } from "./types";
+
+export const COLOR_NAMES: Record<CellColor, string> = {
+  green: "agent",
+  yellow: "neutral",
+  black: "assassin",
+  red: "red agent",
+  blue: "blue agent",
+};
+
+export function cellName(index: number, gridSize: number): string {
+  return `row ${Math.floor(index / gridSize) + 1}, column ${(index % gridSize) + 1}`;
+}
+
+export function snapshotFor(config: BoardConfig, cells: CellColor[] = generateGrid(config), reveals?: CellReveals[], game: DuetGame | null = null): HistorySnapshot {
+  return { config, cells, reveals: reveals ?? emptyReveals(config.gridSize * config.gridSize), game };
+}
+
+export function startHistory(base: HistorySnapshot): GameHistory {
+  return { base, entries: [] };
+}
+
+function isValidGame(value: unknown): boolean {
+  if (value === null) return true;
+  if (!value || typeof value !== "object") return false;
+  const game = value as Partial<DuetGame>;
+  return !!game.rules && typeof game.rules === "object" && Array.isArray(game.guesses);
+}
+
+// The board a log starts from has to be one this version can deal, with a
+// card and a set of marks for every cell
+function isValidBase(base: HistorySnapshot | undefined): boolean {
+  if (!base || typeof base !== "object") return false;
+  const parsed = parseBoardConfig(base.config);
+  if (!parsed.ok) return false;
+  const total = parsed.config.gridSize * parsed.config.gridSize;
+  if (!Array.isArray(base.cells) || base.cells.length !== total || !base.cells.every(isCellColor)) return false;
+  return isValidReveals(base.reveals, total) && isValidGame(base.game);
+}
+
+// Stored logs are trusted only if they still replay on this version of the engine
+export function isValidHistory(value: unknown): value is GameHistory {
+  if (!value || typeof value !== "object") return false;
+  const h = value as GameHistory;
+  if (!isValidBase(h.base) || !Array.isArray(h.entries)) return false;
+  try {
+    replayHistory(h);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Apply one action. Returns the same snapshot when the action changes
+// nothing, so callers can skip logging it.
+export function applyAction(state: HistorySnapshot, action: GameAction): HistorySnapshot {
+  switch (action.type) {
+    case "config":
+    case "seed": {
+      const config = action.type === "seed" ? { ...state.config, seed: action.seed } : action.config;
+      if (JSON.stringify(config) === JSON.stringify(state.config)) return state;
+      const cells = generateGrid(config);
+      // Flipping sides only swaps the key card on screen; guesses belong to the board
+      if (configDigest(config) === configDigest(state.config)) return { ...state, config, cells };
+      const game = state.game && config.mode === "duet" ? createDuetGame(state.game.rules) : null;
+      return { config, cells, reveals: emptyReveals(config.gridSize * config.gridSize), game };
+    }
+    case "mark":
+      // A partner's mark can land after a config change shrank the board
+      if (action.index >= state.cells.length) return state;
+      return { ...state, reveals: toggleMark(state.reveals, action.index, action.key, action.color) };
+    case "guess": {
+      if (!state.game || action.index >= state.cells.length || !canGuess(state.game, action.index)) return state;
+      const keys = duetKeys(state.config);
+      const key = state.game.clueGiver;
+      return {
+        ...state,
+        game: applyGuess(state.game, keys, action.index),
+        reveals: addMark(state.reveals, action.index, key, keys[key][action.index]),
+      };
+    }
+    case "endTurn": {
+      if (!state.game) return state;
+      const game = endTurn(state.game, duetKeys(state.config));
+      return game === state.game ? state : { ...state, game };
+    }
+    case "clueGiver": {
+      if (!state.game) return state;
+      const game = setClueGiver(state.game, action.side);
+      return game === state.game || game.clueGiver === state.game.clueGiver ? state : { ...state, game };
+    }
+    case "playMode":
+      return {
+        ...state,
+        reveals: emptyReveals(state.config.gridSize * state.config.gridSize),
+        game: action.rules ? createDuetGame(action.rules) : null,
+      };
+    case "clue":
+      // A fresh snapshot with the same board, so the clue is still logged
+      return action.word.trim() ? { ...state } : state;
+  }
+}
+
+export function describeAction(before: HistorySnapshot, action: GameAction): string {
+  const size = before.config.gridSize;
+  switch (action.type) {
+    case "seed":
+      return `Seed set to "${action.seed}"`;
+    case "config":
+      return action.config.side !== before.config.side && configDigest(action.config) === configDigest(before.config)
+        ? `Switched to side ${action.config.side}`
+        : `Board set to ${configDigest(action.config)}`;
+    case "mark": {
+      const wasMarked = keyColor(before.reveals[action.index] ?? [], action.key) !== undefined;
+      return wasMarked
+        ? `Unmarked ${cellName(action.index, size)} on key ${action.key}`
+        : `${cellName(action.index, size)} is ${COLOR_NAMES[action.color]} on key ${action.key}`;
+    }
+    case "guess": {
+      const key: Side = before.game?.clueGiver ?? "A";
+      const color = duetKeys(before.config)[key][action.index];
+      return `Guessed ${cellName(action.index, size)}: ${COLOR_NAMES[color]} on key ${key}`;
+    }
+    case "endTurn":
+      return `Side ${before.game?.clueGiver ?? "?"} ended the turn`;
+    case "clueGiver":
+      return `Side ${action.side} takes the clue`;
+    case "playMode":
+      return action.rules ? `New Duet game (${action.rules.timerTokens} tokens)` : "Switched to key card only";
+    case "clue":
+      return `${action.team ? `${action.team === "red" ? "Red" : "Blue"} team` : `Side ${action.side}`} gave the clue "${action.word}" for ${action.number}`;
+  }
+}
+
+function resetsBoard(before: HistorySnapshot, after: HistorySnapshot, action: GameAction): boolean {
+  if (action.type === "playMode") return true;
+  return (action.type === "config" || action.type === "seed") && configDigest(before.config) !== configDigest(after.config);
+}
+
+// Fold the log into the steps that are currently in effect. Undo moves the
+// last step aside, redo brings it back, and any new action drops what was undone.
+export function replayHistory(history: GameHistory): Timeline {
+  const steps: TimelineStep[] = [];
+  const states: HistorySnapshot[] = [history.base];
+  let undone: TimelineStep[] = [];
+
+  for (const entry of history.entries) {
+    if (entry.type === "undo") {
+      const step = steps.pop();
+      if (step) {
+        states.pop();
+        undone.push(step);
+      }
+      continue;
+    }
+    if (entry.type === "redo") {
+      const step = undone.pop();
+      if (step && step.entry.type !== "undo" && step.entry.type !== "redo") {
+        states.push(applyAction(states[states.length - 1], step.entry));
+        steps.push(step);
+      }
+      continue;
+    }
+    const before = states[states.length - 1];
+    const after = applyAction(before, entry);
+    steps.push({ entry, description: describeAction(before, entry), resetsBoard: resetsBoard(before, after, entry) });
+    states.push(after);
+    undone = [];
+  }
+
+  let boardStart = 0;
+  steps.forEach((step, i) => {
+    if (step.resetsBoard) boardStart = i + 1;
+  });
+  return { steps, states, undone, boardStart };
+}
+
+// Append an action unless it would change nothing
+export function recordAction(history: GameHistory, current: HistorySnapshot, action: GameAction, at = Date.now()): GameHistory {
+  if (applyAction(current, action) === current) return history;
+  const entry: LogEntry = { ...action, at };
+  return { ...history, entries: [...history.entries, entry] };
+}
+
+export function recordUndo(history: GameHistory, at = Date.now()): GameHistory {
+  return { ...history, entries: [...history.entries, { type: "undo", at }] };
+}
+
+export function recordRedo(history: GameHistory, at = Date.now()): GameHistory {
+  return { ...history, entries: [...history.entries, { type: "redo", at }] };
+}
+
+function describeOutcome(before: HistorySnapshot, after: HistorySnapshot): string[] {
+  const was = before.game;
+  const game = after.game;
+  if (!was || !game) return [];
+  if (game.status !== was.status) {
+    switch (game.status) {
+      case "won":
+        return ["Every agent found. You win!"];
+      case "lost":
+        if (game.lossReason === "assassin") return ["That was the assassin. Game over."];
+        if (game.lossReason === "mistakes") return ["Too many mistakes. Game over."];
+        return ["A wrong guess in sudden death. Game over."];
+      case "suddenDeath":
+        return ["The last timer token is gone. Sudden death: no more clues."];
+    }
+  }
+  if (game.tokensLeft < was.tokensLeft) {
+    const left = game.tokensLeft;
+    return [`Timer token spent, ${left} ${left === 1 ? "token" : "tokens"} left.`];
+  }
+  return [];
+}
+
+// What a screen reader should hear after the timeline moved by one step, in
+// either direction. Loading another game or a burst of remote events says nothing.
+export function describeChange(before: Timeline, after: Timeline): string | null {
+  if (before.states[0] !== after.states[0]) return null;
+  const prev = before.steps.length;
+  const next = after.steps.length;
+  if (next === prev + 1) {
+    const step = after.steps[next - 1];
+    const redone = before.undone[before.undone.length - 1]?.entry === step.entry;
+    return [`${redone ? "Redid: " : ""}${step.description}.`, ...describeOutcome(after.states[next - 1], after.states[next])].join(" ");
+  }
+  if (next === prev - 1) {
+    return `Undid: ${before.steps[prev - 1].description}.`;
+  }
+  return null;
+}
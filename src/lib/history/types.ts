@@ -0,0 +1,45 @@
+import type { BoardConfig, CellColor, Side, Team } from "@/lib/engine";
+import type { CellReveals, DuetGame, DuetRules } from "@/lib/game";
+
+// Everything the event log can change. Words are a display layer and stay out of it.
+export type HistorySnapshot = {
+  config: BoardConfig;
+  cells: CellColor[];
+  reveals: CellReveals[];
+  game: DuetGame | null;
+};
+
+export type GameAction =
+  | { type: "config"; config: BoardConfig }
+  | { type: "seed"; seed: string }
+  | { type: "mark"; index: number; key: Side; color: CellColor }
+  | { type: "guess"; index: number }
+  | { type: "endTurn" }
+  | { type: "clueGiver"; side: Side }
+  | { type: "playMode"; rules: DuetRules | null }
+  // Leaves the board as it is. Logging it lets the reveals that follow be
+  // read as answers to it. `team` is only set on classic boards.
+  | { type: "clue"; word: string; number: number; side: Side; team?: Team };
+
+// Undo and redo are recorded too, so the log itself is never rewritten
+export type LogEntry = (GameAction | { type: "undo" } | { type: "redo" }) & { at: number };
+
+export type GameHistory = {
+  base: HistorySnapshot;
+  entries: LogEntry[];
+};
+
+export type TimelineStep = {
+  entry: LogEntry;
+  description: string;
+  // True when the step started a new board or game
+  resetsBoard: boolean;
+};
+
+export type Timeline = {
+  steps: TimelineStep[];
+  // states[i] is the snapshot after the first i steps
+  states: HistorySnapshot[];
+  undone: TimelineStep[];
+  boardStart: number;
+};
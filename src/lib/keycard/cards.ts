@@ -0,0 +1,149 @@
+import { cellHex, type Palette } from "@/lib/cellStyles";
+import { configDigest, generateGrid, startingTeam, type BoardConfig, type CellColor } from "@/lib/engine";
+import type { Drawing, Shape } from "./drawing";
+
+const INK = "#000000";
+
+// A4 portrait
+export const SHEET_WIDTH_MM = 210;
+export const SHEET_HEIGHT_MM = 297;
+const SHEET_MARGIN_MM = 10;
+const CARD_GAP_MM = 6;
+// Cards are a little taller than wide to fit the footer
+const CARD_ASPECT = 1.14;
+const MAX_CARD_MM = 90;
+
+export const MAX_BATCH_SEEDS = 12;
+
+// White symbols on dark cells, black on light ones
+function symbolInk(fill: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) => Number.parseInt(fill.slice(i, i + 2), 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 0.4 ? "#ffffff" : INK;
+}
+
+// Printed stand-ins for the on-screen cell symbols, so the cards read on
+// black and white printers and for colorblind players. The assassin is a
+// cross since a skull doesn't survive being this small.
+function cellSymbol(color: CellColor, fill: string, x: number, y: number, size: number): Shape[] {
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+  const r = size * 0.22;
+  const stroke = size * 0.08;
+  const ink = symbolInk(fill);
+  switch (color) {
+    case "green":
+      return [
+        { kind: "line", x1: cx - r, y1: cy, x2: cx - r * 0.25, y2: cy + r * 0.75, stroke: ink, strokeWidth: stroke },
+        { kind: "line", x1: cx - r * 0.25, y1: cy + r * 0.75, x2: cx + r, y2: cy - r * 0.75, stroke: ink, strokeWidth: stroke },
+      ];
+    case "yellow":
+      return [{ kind: "circle", cx, cy, r: r * 0.35, fill: ink }];
+    case "black":
+      return [
+        { kind: "line", x1: cx - r, y1: cy - r, x2: cx + r, y2: cy + r, stroke: ink, strokeWidth: stroke },
+        { kind: "line", x1: cx - r, y1: cy + r, x2: cx + r, y2: cy - r, stroke: ink, strokeWidth: stroke },
+      ];
+    case "red":
+      return [{ kind: "polygon", points: [[cx, cy - r], [cx + r, cy + r * 0.8], [cx - r, cy + r * 0.8]], fill: ink }];
+    case "blue":
+      return [{ kind: "rect", x: cx - r * 0.8, y: cy - r * 0.8, w: r * 1.6, h: r * 1.6, fill: ink }];
+  }
+}
+
+// One key card with its top-left corner at (x, y)
+export function keyCardShapes(config: BoardConfig, x: number, y: number, width: number, palette: Palette = "standard"): Shape[] {
+  const height = width * CARD_ASPECT;
+  const n = config.gridSize;
+  const pad = width * 0.08;
+  const gridTop = y + width * 0.1;
+  const gridSize = width - pad * 2;
+  const pitch = gridSize / n;
+  const gap = pitch * 0.08;
+  const cellSize = pitch - gap;
+  const team = startingTeam(config);
+  const cells = generateGrid(config);
+  const cx = x + width / 2;
+  const label = config.mode === "duet" ? `Side ${config.side}` : `${team === "red" ? "Red" : "Blue"} starts`;
+
+  const shapes: Shape[] = [
+    { kind: "rect", x, y, w: width, h: height, stroke: INK, strokeWidth: 0.3 },
+    // Orientation marker: the card is read with this arrow pointing away from the spymaster
+    { kind: "polygon", points: [[cx - width * 0.045, y + width * 0.065], [cx + width * 0.045, y + width * 0.065], [cx, y + width * 0.02]], fill: INK },
+    { kind: "rect", x: x + pad * 0.35, y: y + pad * 0.35, w: pad * 0.45, h: pad * 0.45, fill: INK },
+    { kind: "text", x: x + width - pad, y: y + width * 0.065, text: label, size: width * 0.045, anchor: "end", fill: INK, bold: true },
+  ];
+  if (team) {
+    // Classic cards show the starting team as a colored frame
+    shapes.push({ kind: "rect", x: x + pad - gap * 1.5, y: gridTop - gap * 1.5, w: gridSize + gap * 2, h: gridSize + gap * 2, stroke: cellHex(team, palette), strokeWidth: gap * 1.2 });
+  }
+  cells.forEach((color, i) => {
+    const cellX = x + pad + (i % n) * pitch;
+    const cellY = gridTop + Math.floor(i / n) * pitch;
+    const fill = cellHex(color, palette);
+    shapes.push({ kind: "rect", x: cellX, y: cellY, w: cellSize, h: cellSize, fill, stroke: INK, strokeWidth: 0.15 });
+    shapes.push(...cellSymbol(color, fill, cellX, cellY, cellSize));
+  });
+  shapes.push({
+    kind: "text",
+    x: x + width - pad,
+    y: y + height - pad * 0.6,
+    text: `${config.seed} · ${configDigest(config)}`,
+    size: width * 0.04,
+    anchor: "end",
+    fill: INK,
+  });
+  return shapes;
+}
+
+export function keyCardDrawing(config: BoardConfig, width = 80, palette: Palette = "standard"): Drawing {
+  const margin = 4;
+  return {
+    width: width + margin * 2,
+    height: width * CARD_ASPECT + margin * 2,
+    shapes: keyCardShapes(config, margin, margin, width, palette),
+  };
+}
+
+// Every card needed to play the given seeds: both sides for Duet, one card for classic
+export function cardsForSeeds(config: BoardConfig, seeds: string[]): BoardConfig[] {
+  return seeds.flatMap((seed) =>
+    config.mode === "duet" ? [{ ...config, seed, side: "A" as const }, { ...config, seed, side: "B" as const }] : [{ ...config, seed }],
+  );
+}
+
+// "party" -> party, party-2, party-3; "night-07" -> night-07, night-08...
+export function consecutiveSeeds(seed: string, count: number): string[] {
+  const match = /^(.*?)(\d+)$/.exec(seed);
+  return Array.from({ length: count }, (_, i) => {
+    if (i === 0) return seed;
+    if (match) return match[1] + String(Number.parseInt(match[2], 10) + i).padStart(match[2].length, "0");
+    return `${seed}-${i + 1}`;
+  });
+}
+
+// Lay the cards out on one A4 sheet, shrinking them as the batch grows
+export function sheetDrawing(cards: BoardConfig[], palette: Palette = "standard"): Drawing {
+  const usableW = SHEET_WIDTH_MM - SHEET_MARGIN_MM * 2;
+  const usableH = SHEET_HEIGHT_MM - SHEET_MARGIN_MM * 2;
+  let best = { cols: 1, width: 0 };
+  for (let cols = 1; cols <= cards.length; cols += 1) {
+    const rows = Math.ceil(cards.length / cols);
+    const byWidth = (usableW - CARD_GAP_MM * (cols - 1)) / cols;
+    const byHeight = (usableH - CARD_GAP_MM * (rows - 1)) / rows / CARD_ASPECT;
+    const width = Math.min(byWidth, byHeight, MAX_CARD_MM);
+    if (width > best.width) best = { cols, width };
+  }
+  const { cols, width } = best;
+  const rows = Math.ceil(cards.length / cols);
+  const blockW = cols * width + (cols - 1) * CARD_GAP_MM;
+  const blockH = rows * width * CARD_ASPECT + (rows - 1) * CARD_GAP_MM;
+  const left = (SHEET_WIDTH_MM - blockW) / 2;
+  const top = (SHEET_HEIGHT_MM - blockH) / 2;
+  return {
+    width: SHEET_WIDTH_MM,
+    height: SHEET_HEIGHT_MM,
+    shapes: cards.flatMap((card, i) =>
+      keyCardShapes(card, left + (i % cols) * (width + CARD_GAP_MM), top + Math.floor(i / cols) * (width * CARD_ASPECT + CARD_GAP_MM), width, palette),
+    ),
+  };
+}
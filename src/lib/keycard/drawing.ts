@@ -0,0 +1,55 @@
+// A tiny vector model shared by the SVG and PDF exports so both print the
+// same card. Units are millimetres with the origin at the top left.
+export type Paint = {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+};
+
+export type Shape =
+  | ({ kind: "rect"; x: number; y: number; w: number; h: number } & Paint)
+  | ({ kind: "polygon"; points: [number, number][] } & Paint)
+  | ({ kind: "circle"; cx: number; cy: number; r: number } & Paint)
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth: number }
+  | { kind: "text"; x: number; y: number; text: string; size: number; anchor: "start" | "middle" | "end"; fill: string; bold?: boolean };
+
+export type Drawing = {
+  width: number;
+  height: number;
+  shapes: Shape[];
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function paintAttrs({ fill, stroke, strokeWidth }: Paint): string {
+  return `fill="${fill ?? "none"}"${stroke ? ` stroke="${stroke}" stroke-width="${strokeWidth ?? 0.2}"` : ""}`;
+}
+
+function round(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+export function drawingToSvg(drawing: Drawing): string {
+  const body = drawing.shapes
+    .map((s) => {
+      switch (s.kind) {
+        case "rect":
+          return `<rect x="${round(s.x)}" y="${round(s.y)}" width="${round(s.w)}" height="${round(s.h)}" ${paintAttrs(s)}/>`;
+        case "polygon":
+          return `<polygon points="${s.points.map(([x, y]) => `${round(x)},${round(y)}`).join(" ")}" ${paintAttrs(s)}/>`;
+        case "circle":
+          return `<circle cx="${round(s.cx)}" cy="${round(s.cy)}" r="${round(s.r)}" ${paintAttrs(s)}/>`;
+        case "line":
+          return `<line x1="${round(s.x1)}" y1="${round(s.y1)}" x2="${round(s.x2)}" y2="${round(s.y2)}" stroke="${s.stroke}" stroke-width="${round(s.strokeWidth)}" stroke-linecap="round"/>`;
+        case "text":
+          return `<text x="${round(s.x)}" y="${round(s.y)}" font-size="${round(s.size)}" text-anchor="${s.anchor}" fill="${s.fill}"${s.bold ? ' font-weight="bold"' : ""}>${escapeXml(s.text)}</text>`;
+      }
+    })
+    .join("");
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}mm" height="${drawing.height}mm" viewBox="0 0 ${drawing.width} ${drawing.height}" font-family="Helvetica, Arial, sans-serif">` +
+    `<rect width="${drawing.width}" height="${drawing.height}" fill="#ffffff"/>${body}</svg>`
+  );
+}
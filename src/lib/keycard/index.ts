@@ -0,0 +1,14 @@
+export type { Drawing, Paint, Shape } from "./drawing";
+export { drawingToSvg } from "./drawing";
+export { drawingToPdf } from "./pdf";
+export { svgToPngBlob } from "./png";
+export {
+  MAX_BATCH_SEEDS,
+  SHEET_HEIGHT_MM,
+  SHEET_WIDTH_MM,
+  cardsForSeeds,
+  consecutiveSeeds,
+  keyCardDrawing,
+  keyCardShapes,
+  sheetDrawing,
+} from "./cards";
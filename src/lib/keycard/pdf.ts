@@ -0,0 +1,108 @@
+import type { Drawing, Paint, Shape } from "./drawing";
+
+const PT_PER_MM = 72 / 25.4;
+// Bezier handle length for approximating a quarter circle
+const KAPPA = 0.5523;
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, from the standard AFM.
+// Needed to centre and right-align text since PDF has no text anchors.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278,
+  584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+  667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500,
+  278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size;
+}
+
+// The built-in fonts only cover Latin-1, so anything else prints as "?"
+function pdfString(text: string): string {
+  const latin = [...text].map((ch) => (ch.charCodeAt(0) < 256 ? ch : "?")).join("");
+  return `(${latin.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")})`;
+}
+
+function num(n: number): string {
+  return (Math.round(n * 1000) / 1000).toString();
+}
+
+function rgb(hex: string): string {
+  const value = hex.replace("#", "");
+  const full = value.length === 3 ? [...value].map((c) => c + c).join("") : value;
+  return [0, 2, 4].map((i) => num(Number.parseInt(full.slice(i, i + 2), 16) / 255)).join(" ");
+}
+
+function paintOps({ fill, stroke, strokeWidth }: Paint): { setup: string; op: string } {
+  const setup = [fill ? `${rgb(fill)} rg` : "", stroke ? `${rgb(stroke)} RG ${num((strokeWidth ?? 0.2) * PT_PER_MM)} w` : ""].filter(Boolean).join(" ");
+  const op = fill && stroke ? "B" : fill ? "f" : stroke ? "S" : "n";
+  return { setup, op };
+}
+
+function shapeOps(shape: Shape, pageHeight: number): string {
+  const x = (mm: number) => num(mm * PT_PER_MM);
+  const y = (mm: number) => num((pageHeight - mm) * PT_PER_MM);
+  switch (shape.kind) {
+    case "rect": {
+      const { setup, op } = paintOps(shape);
+      return `${setup} ${x(shape.x)} ${y(shape.y + shape.h)} ${x(shape.w)} ${x(shape.h)} re ${op}`;
+    }
+    case "polygon": {
+      const { setup, op } = paintOps(shape);
+      const path = shape.points.map(([px, py], i) => `${x(px)} ${y(py)} ${i === 0 ? "m" : "l"}`).join(" ");
+      return `${setup} ${path} h ${op}`;
+    }
+    case "circle": {
+      const { setup, op } = paintOps(shape);
+      const { cx, cy, r } = shape;
+      const k = r * KAPPA;
+      return [
+        setup,
+        `${x(cx + r)} ${y(cy)} m`,
+        `${x(cx + r)} ${y(cy + k)} ${x(cx + k)} ${y(cy + r)} ${x(cx)} ${y(cy + r)} c`,
+        `${x(cx - k)} ${y(cy + r)} ${x(cx - r)} ${y(cy + k)} ${x(cx - r)} ${y(cy)} c`,
+        `${x(cx - r)} ${y(cy - k)} ${x(cx - k)} ${y(cy - r)} ${x(cx)} ${y(cy - r)} c`,
+        `${x(cx + k)} ${y(cy - r)} ${x(cx + r)} ${y(cy - k)} ${x(cx + r)} ${y(cy)} c`,
+        `h ${op}`,
+      ].join(" ");
+    }
+    case "line":
+      return `${rgb(shape.stroke)} RG ${num(shape.strokeWidth * PT_PER_MM)} w 1 J ${x(shape.x1)} ${y(shape.y1)} m ${x(shape.x2)} ${y(shape.y2)} l S`;
+    case "text": {
+      const width = textWidth(shape.text, shape.size);
+      const left = shape.anchor === "middle" ? shape.x - width / 2 : shape.anchor === "end" ? shape.x - width : shape.x;
+      return `${rgb(shape.fill)} rg BT /${shape.bold ? "F2" : "F1"} ${num(shape.size * PT_PER_MM)} Tf ${x(left)} ${y(shape.y)} Td ${pdfString(shape.text)} Tj ET`;
+    }
+  }
+}
+
+// A single-page PDF 1.4 file. Everything is drawn with vector operators and
+// the two standard Helvetica fonts, so nothing needs to be embedded.
+export function drawingToPdf(drawing: Drawing): Uint8Array<ArrayBuffer> {
+  const content = ["q", ...drawing.shapes.map((s) => shapeOps(s, drawing.height)), "Q"].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(drawing.width * PT_PER_MM)} ${num(drawing.height * PT_PER_MM)}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  // Latin-1 bytes, so offsets counted in characters match the file
+  return Uint8Array.from(out, (ch) => ch.charCodeAt(0) & 0xff);
+}
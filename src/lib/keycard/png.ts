@@ -0,0 +1,25 @@
+// Rasterise an SVG export in the browser. `pxPerMm` of 12 is roughly 300 dpi.
+export function svgToPngBlob(svg: string, widthMm: number, heightMm: number, pxPerMm = 12): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(widthMm * pxPerMm);
+      canvas.height = Math.round(heightMm * pxPerMm);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't render the key card"));
+    };
+    image.src = url;
+  });
+}
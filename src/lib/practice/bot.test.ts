@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseAssociations } from "@/lib/clues";
+import { createDuetGame, type DuetKeys } from "@/lib/game";
+import { botClue, botGuesses } from "./bot";
+
+const TABLE = parseAssociations(["ocean: whale3 shark2 wave2 sand1", "desert: sand3 camel3"].join("\n"));
+const WORDS = ["whale", "shark", "wave", "sand", "camel", "piano"];
+const KEYS: DuetKeys = {
+  A: ["yellow", "yellow", "yellow", "green", "green", "black"],
+  B: ["green", "green", "green", "yellow", "yellow", "black"],
+};
+
+describe("botClue", () => {
+  it("clues the computer's own agents", () => {
+    const clue = botClue(TABLE, WORDS, KEYS, createDuetGame(undefined, "B"), "B", 3);
+    expect(clue).toEqual({ word: "ocean", number: 3, targets: [0, 1, 2] });
+  });
+
+  it("gives no more targets than maxTargets", () => {
+    const clue = botClue(TABLE, WORDS, KEYS, createDuetGame(undefined, "B"), "B", 2);
+    expect(clue?.number).toBe(2);
+    expect(clue?.targets).toEqual([0, 1]);
+  });
+
+  it("gives no clue when it isn't the computer's turn or the game is over", () => {
+    expect(botClue(TABLE, WORDS, KEYS, createDuetGame(undefined, "A"), "B", 3)).toBeNull();
+    expect(botClue(TABLE, WORDS, KEYS, { ...createDuetGame(undefined, "B"), status: "lost" }, "B", 3)).toBeNull();
+  });
+});
+
+describe("botGuesses", () => {
+  it("stops at the clue's number, best match first", () => {
+    expect(botGuesses(TABLE, WORDS, createDuetGame(), "ocean", 2)).toEqual([0, 1]);
+  });
+
+  it("skips cards it sees no link to", () => {
+    expect(botGuesses(TABLE, WORDS, createDuetGame(), "desert", 4)).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,66 @@
+import { suggestClues, type AssociationTable } from "@/lib/clues";
+import type { Side } from "@/lib/engine";
+import { agentsFound, canGuess, type DuetGame, type DuetKeys } from "@/lib/game";
+
+export type BotClue = {
+  word: string;
+  number: number;
+  // The cards the clue was meant for, kept from the player until the game ends
+  targets: number[];
+};
+
+export type RankedGuess = {
+  index: number;
+  score: number;
+};
+
+function normalize(word: string): string {
+  return word.trim().toLocaleLowerCase();
+}
+
+// The clue `side` gives on its turn. `side` is the computer's side; its key
+// comes from generateGrid like any other Duet board, so on version 1 boards
+// side B is generateSideB's. Returns null when it isn't that side's turn to
+// clue or nothing in the table links to a card left on its key.
+export function botClue(table: AssociationTable, words: string[], keys: DuetKeys, game: DuetGame, side: Side, maxTargets: number): BotClue | null {
+  if (game.status !== "playing" || game.clueGiver !== side) return null;
+  const found = agentsFound(game);
+  const done = keys[side].map((_, i) => found.has(i) || game.guesses.some((g) => g.index === i && g.clueGiver === side));
+  const options = { cells: keys[side], words, done, target: "green" as const, maxTargets, limit: 1 };
+  // Hinting at a bystander only costs a token, so it beats having no clue at all
+  const [best] = suggestClues(table, { ...options, avoidNeutral: true });
+  const pick = best ?? suggestClues(table, { ...options, avoidNeutral: false })[0];
+  return pick ? { word: pick.clue, number: pick.targets.length, targets: pick.targets } : null;
+}
+
+// How closely a clue and a card word go together: directly through the
+// table in either direction, or a notch less when some third clue links both.
+export function relatedness(table: AssociationTable, clue: string, word: string): number {
+  const a = normalize(clue);
+  const b = normalize(word);
+  if (!a || !b || a === b) return 0;
+  let score = Math.max(table.get(a)?.get(b) ?? 0, table.get(b)?.get(a) ?? 0);
+  for (const links of table.values()) {
+    const x = links.get(a);
+    const y = links.get(b);
+    if (x && y) score = Math.max(score, Math.min(x, y) - 1);
+  }
+  return score;
+}
+
+// Every card the current guesser may still pick, best match for the clues first
+export function rankGuesses(table: AssociationTable, words: string[], game: DuetGame, clues: string[]): RankedGuess[] {
+  return words
+    .map((word, index) => ({ index, score: word ? Math.max(0, ...clues.map((c) => relatedness(table, c, word))) : 0 }))
+    .filter((g) => words[g.index] && canGuess(game, g.index))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+// The cards the computer will try for the player's clue, in order. It goes
+// no further than the clue's number and skips cards it sees no link to.
+export function botGuesses(table: AssociationTable, words: string[], game: DuetGame, clue: string, number: number): number[] {
+  return rankGuesses(table, words, game, [clue])
+    .filter((g) => g.score > 0)
+    .slice(0, Math.max(1, number))
+    .map((g) => g.index);
+}
@@ -0,0 +1,9 @@
+export {
+  DEFAULT_PRACTICE,
+  PRACTICE_LEVELS,
+  isPracticeLevel,
+  isValidPractice,
+  type PracticeLevel,
+  type PracticeSetup,
+} from "./setup";
+export { botClue, botGuesses, rankGuesses, relatedness, type BotClue, type RankedGuess } from "./bot";
@@ -0,0 +1,29 @@
+// How many cards the computer partner tries to link with one clue. Fewer
+// cards make each clue clearer but leave more to find with the same tokens.
+export type PracticeLevel = "easy" | "normal" | "hard" | "expert";
+
+// Solo Duet practice: the human keeps `config.side` and the app plays the
+// other side, both giving clues and guessing. Clues from either side go to
+// the game's clue log.
+export type PracticeSetup = {
+  level: PracticeLevel;
+};
+
+export const PRACTICE_LEVELS: Record<PracticeLevel, { label: string; maxTargets: number }> = {
+  easy: { label: "Easy: one card per clue", maxTargets: 1 },
+  normal: { label: "Normal: up to two cards", maxTargets: 2 },
+  hard: { label: "Hard: up to three cards", maxTargets: 3 },
+  expert: { label: "Expert: up to four cards", maxTargets: 4 },
+};
+
+export const DEFAULT_PRACTICE: PracticeSetup = { level: "normal" };
+
+export function isPracticeLevel(value: unknown): value is PracticeLevel {
+  return typeof value === "string" && Object.hasOwn(PRACTICE_LEVELS, value);
+}
+
+export function isValidPractice(value: unknown): value is PracticeSetup {
+  if (!value || typeof value !== "object") return false;
+  const practice = value as Record<string, unknown>;
+  return isPracticeLevel(practice.level);
+}
@@ -0,0 +1,35 @@
+import jsQR from "jsqr";
+import QRCode from "qrcode";
+import type { ConfigParseResult } from "@/lib/engine";
+import { decodeConfigParams } from "@/lib/share";
+
+export function renderQrDataUrl(text: string): Promise<string> {
+  return QRCode.toDataURL(text, { errorCorrectionLevel: "M", margin: 2, width: 240 });
+}
+
+export function decodeQrImage(image: ImageData): string | null {
+  const result = jsQR(image.data, image.width, image.height, { inversionAttempts: "attemptBoth" });
+  return result ? result.data : null;
+}
+
+// Scanned codes may hold a full partner link or just its params.
+export function parseScannedConfig(text: string): ConfigParseResult {
+  const hashIndex = text.indexOf("#");
+  const query = hashIndex === -1 ? text : text.slice(hashIndex + 1);
+  return decodeConfigParams(query) ?? { ok: false, error: "This QR code doesn't contain a Codenames Helper board." };
+}
+
+export async function decodeQrFile(file: File): Promise<string | null> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0);
+    return decodeQrImage(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,162 @@
+import type { HistorySnapshot } from "@/lib/history";
+import { RELAY_PROTOCOL_VERSION, parseServerMessage, type ClientMessage, type RelayedEvent, type RoomEvent } from "./protocol";
+import { emptySequence, receiveEvents, type SequencedEvent } from "./sequence";
+
+export type RelayStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export type RelayRoom = {
+  code: string;
+  base: HistorySnapshot;
+  // Hash of the word pack the room's creator deals from
+  pack: string;
+  // Events already in the room, in relay order
+  events: RoomEvent[];
+  // True for the device that opened the room, which already has the board
+  created: boolean;
+};
+
+export type RelayHandlers = {
+  onStatus: (status: RelayStatus) => void;
+  onRoom: (room: RelayRoom) => void;
+  // Events from other members, including ones missed while reconnecting
+  onEvents: (events: RoomEvent[]) => void;
+  // The relay put another member's event before some of this device's, so
+  // the board should be rebuilt from the room's start in this order
+  onRebase: (log: SequencedEvent[], pending: RoomEvent[]) => void;
+  onPeers: (count: number) => void;
+  onError: (message: string) => void;
+};
+
+export type RelayConnection = {
+  send: (event: RoomEvent) => void;
+  close: () => void;
+};
+
+export type RelayRequest = { create: HistorySnapshot; pack: string } | { join: string };
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+function randomId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Connects to a relay and keeps the device in one room, reconnecting with
+// backoff and resending anything the relay hasn't acknowledged yet. The
+// relay's sequence numbers decide the order every member ends up with.
+export function openRelayRoom(url: string, request: RelayRequest, handlers: RelayHandlers): RelayConnection {
+  const clientId = randomId();
+  let socket: WebSocket | null = null;
+  let code: string | null = null;
+  const sequence = emptySequence();
+  let counter = 0;
+  let joined = false;
+  let closed = false;
+  let attempts = 0;
+  let retryTimer = 0;
+
+  function post(message: ClientMessage) {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }
+
+  function deliver(events: RelayedEvent[]) {
+    const update = receiveEvents(sequence, events, clientId);
+    if (update.rebase) handlers.onRebase(sequence.log, sequence.outbox.map((o) => o.event));
+    else if (update.append.length > 0) handlers.onEvents(update.append);
+    // Dropping the connection rejoins from the last event in order, which replays the missing ones
+    if (update.gap) socket?.close();
+  }
+
+  function onMessage(data: unknown) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    const message = parseServerMessage(raw);
+    if (!message) return;
+    switch (message.type) {
+      case "room": {
+        const first = code === null;
+        code = message.code;
+        joined = true;
+        attempts = 0;
+        if (first) {
+          const created = "create" in request;
+          // A joiner's earlier changes were made to the board it is leaving
+          if (!created) sequence.outbox.length = 0;
+          receiveEvents(sequence, message.events, clientId);
+          handlers.onRoom({ code: message.code, base: message.base, pack: message.pack, events: sequence.log.map((e) => e.event), created });
+        } else {
+          deliver(message.events);
+        }
+        sequence.outbox.forEach((o) => post({ type: "event", id: o.id, event: o.event }));
+        handlers.onPeers(message.peers);
+        handlers.onStatus("open");
+        return;
+      }
+      case "event":
+        deliver([message.event]);
+        return;
+      case "peers":
+        handlers.onPeers(message.count);
+        return;
+      case "error":
+        handlers.onError(message.message);
+        // A room that can't be joined won't become joinable by retrying
+        if (message.reason !== "invalid") close();
+        return;
+    }
+  }
+
+  function connect() {
+    handlers.onStatus(attempts === 0 ? "connecting" : "reconnecting");
+    joined = false;
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      handlers.onError(`"${url}" isn't a valid relay address.`);
+      close();
+      return;
+    }
+    socket.onopen = () => {
+      if (code !== null) {
+        post({ type: "join", protocol: RELAY_PROTOCOL_VERSION, clientId, code, since: sequence.lastSeq });
+      } else if ("create" in request) {
+        post({ type: "create", protocol: RELAY_PROTOCOL_VERSION, clientId, base: request.create, pack: request.pack });
+      } else {
+        post({ type: "join", protocol: RELAY_PROTOCOL_VERSION, clientId, code: request.join, since: 0 });
+      }
+    };
+    socket.onmessage = (e) => onMessage(e.data);
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      attempts += 1;
+      handlers.onStatus("reconnecting");
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempts - 1));
+      retryTimer = window.setTimeout(connect, delay);
+    };
+  }
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    window.clearTimeout(retryTimer);
+    socket?.close();
+    handlers.onStatus("closed");
+  }
+
+  connect();
+
+  return {
+    send(event) {
+      counter += 1;
+      const entry = { id: `${clientId}-${counter}`, event };
+      sequence.outbox.push(entry);
+      if (joined) post({ type: "event", ...entry });
+    },
+    close,
+  };
+}
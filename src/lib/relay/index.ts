@@ -0,0 +1,13 @@
+export type { RelayConnection, RelayHandlers, RelayRequest, RelayRoom, RelayStatus } from "./client";
+export { openRelayRoom } from "./client";
+export type { ClientMessage, RelayErrorReason, RelayedEvent, RoomEvent, ServerMessage } from "./protocol";
+export {
+  RELAY_PROTOCOL_VERSION,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  isRoomCode,
+  normalizeRoomCode,
+  parseClientMessage,
+  parseServerMessage,
+} from "./protocol";
+export { emptySequence, receiveEvents, replayRoom, type RoomSequence, type SequenceUpdate, type SequencedEvent } from "./sequence";
@@ -0,0 +1,127 @@
+import { isCellColor, parseBoardConfig } from "@/lib/engine";
+import { isValidReveals } from "@/lib/game";
+import type { HistorySnapshot } from "@/lib/history";
+import { parseSyncMessage, type SyncMessage } from "@/lib/sync";
+
+// Shared by the relay server in /relay and the browser client
+export const RELAY_PROTOCOL_VERSION = 3;
+export const ROOM_CODE_LENGTH = 5;
+// No 0/O or 1/I so codes survive being read out loud
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// The same events two paired devices exchange directly
+export type RoomEvent = Extract<SyncMessage, { type: "action" | "undo" | "redo" }>;
+
+export type RelayedEvent = {
+  // Assigned by the relay; every member sees events in this order
+  seq: number;
+  // Chosen by the sender so a retried event is only stored once
+  id: string;
+  from: string;
+  event: RoomEvent;
+};
+
+export type ClientMessage =
+  // `base` is the creator's board when the room opens. Joiners rebuild it on
+  // their own side. `pack` is the hash of the words it deals from.
+  | { type: "create"; protocol: number; clientId: string; base: HistorySnapshot; pack: string }
+  // `since` is the last sequence number seen, 0 for a first join. Rejoining
+  // after a dropped connection only replays what was missed.
+  | { type: "join"; protocol: number; clientId: string; code: string; since: number }
+  | { type: "event"; id: string; event: RoomEvent };
+
+export type RelayErrorReason = "protocol" | "notFound" | "full" | "invalid";
+
+export type ServerMessage =
+  | { type: "room"; code: string; base: HistorySnapshot; pack: string; events: RelayedEvent[]; peers: number }
+  // Sent to every member, the sender included, which treats it as an acknowledgement
+  | { type: "event"; event: RelayedEvent }
+  | { type: "peers"; count: number }
+  | { type: "error"; reason: RelayErrorReason; message: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object";
+}
+
+function isSequence(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+export function isRoomCode(value: unknown): value is string {
+  return typeof value === "string" && value.length === ROOM_CODE_LENGTH && [...value].every((c) => ROOM_CODE_ALPHABET.includes(c));
+}
+
+export function normalizeRoomCode(text: string): string {
+  return text.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+function parseSnapshot(value: unknown): HistorySnapshot | null {
+  if (!isObject(value)) return null;
+  const parsed = parseBoardConfig(value.config);
+  if (!parsed.ok) return null;
+  const total = parsed.config.gridSize * parsed.config.gridSize;
+  const { cells, reveals, game } = value;
+  if (!Array.isArray(cells) || cells.length !== total || !cells.every(isCellColor)) return null;
+  if (!isValidReveals(reveals, total)) return null;
+  if (game !== null && (!isObject(game) || !Array.isArray(game.guesses))) return null;
+  return { config: parsed.config, cells, reveals, game: game as HistorySnapshot["game"] };
+}
+
+function parseRoomEvent(value: unknown): RoomEvent | null {
+  const message = parseSyncMessage(value);
+  return message && (message.type === "action" || message.type === "undo" || message.type === "redo") ? message : null;
+}
+
+function parseRelayedEvent(value: unknown): RelayedEvent | null {
+  if (!isObject(value) || !isSequence(value.seq) || typeof value.id !== "string" || typeof value.from !== "string") return null;
+  const event = parseRoomEvent(value.event);
+  return event ? { seq: value.seq, id: value.id, from: value.from, event } : null;
+}
+
+export function parseClientMessage(value: unknown): ClientMessage | null {
+  if (!isObject(value)) return null;
+  switch (value.type) {
+    case "create": {
+      const base = parseSnapshot(value.base);
+      return typeof value.protocol === "number" && typeof value.clientId === "string" && base && typeof value.pack === "string"
+        ? { type: "create", protocol: value.protocol, clientId: value.clientId, base, pack: value.pack }
+        : null;
+    }
+    case "join":
+      return typeof value.protocol === "number" && typeof value.clientId === "string" && isRoomCode(value.code) && isSequence(value.since)
+        ? { type: "join", protocol: value.protocol, clientId: value.clientId, code: value.code, since: value.since }
+        : null;
+    case "event": {
+      const event = parseRoomEvent(value.event);
+      return typeof value.id === "string" && event ? { type: "event", id: value.id, event } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function parseServerMessage(value: unknown): ServerMessage | null {
+  if (!isObject(value)) return null;
+  switch (value.type) {
+    case "room": {
+      const base = parseSnapshot(value.base);
+      const events = Array.isArray(value.events) ? value.events.map(parseRelayedEvent) : null;
+      if (!isRoomCode(value.code) || !base || typeof value.pack !== "string" || !events || events.some((e) => !e) || !isSequence(value.peers)) {
+        return null;
+      }
+      return { type: "room", code: value.code, base, pack: value.pack, events: events as RelayedEvent[], peers: value.peers };
+    }
+    case "event": {
+      const event = parseRelayedEvent(value.event);
+      return event ? { type: "event", event } : null;
+    }
+    case "peers":
+      return isSequence(value.count) ? { type: "peers", count: value.count } : null;
+    case "error":
+      return typeof value.message === "string" && ["protocol", "notFound", "full", "invalid"].includes(String(value.reason))
+        ? { type: "error", reason: value.reason as RelayErrorReason, message: value.message }
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { replayHistory, snapshotFor, startHistory, type GameHistory } from "@/lib/history";
+import { recordSyncEvent } from "@/lib/sync";
+import type { RelayedEvent, RoomEvent } from "./protocol";
+import { emptySequence, receiveEvents, replayRoom, type RoomSequence } from "./sequence";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "sequence",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+
+function mark(index: number): RoomEvent {
+  return { type: "action", action: { type: "mark", index, key: "A", color: "green" } };
+}
+
+function relayed(seq: number, from: string, event: RoomEvent, id = `${from}-${seq}`): RelayedEvent {
+  return { seq, id, from, event };
+}
+
+describe("receiveEvents", () => {
+  it("appends events from others in relay order", () => {
+    const sequence = emptySequence();
+    const update = receiveEvents(sequence, [relayed(2, "b", mark(2)), relayed(1, "b", mark(1))], "a");
+    expect(update).toEqual({ append: [mark(1), mark(2)], rebase: false, gap: false });
+    expect(sequence.lastSeq).toBe(2);
+  });
+
+  it("skips events it has already taken", () => {
+    const sequence = emptySequence();
+    receiveEvents(sequence, [relayed(1, "b", mark(1))], "a");
+    expect(receiveEvents(sequence, [relayed(1, "b", mark(1))], "a").append).toEqual([]);
+    expect(sequence.log).toHaveLength(1);
+  });
+
+  it("acknowledges its own events without appending them again", () => {
+    const sequence: RoomSequence = { ...emptySequence(), outbox: [{ id: "a-1", event: mark(1) }] };
+    expect(receiveEvents(sequence, [relayed(1, "a", mark(1), "a-1")], "a")).toEqual({ append: [], rebase: false, gap: false });
+    expect(sequence.outbox).toEqual([]);
+    expect(sequence.log).toEqual([{ event: mark(1), own: true }]);
+  });
+
+  it("rebases when another member's event is ordered before one of ours", () => {
+    const sequence: RoomSequence = { ...emptySequence(), outbox: [{ id: "a-1", event: mark(1) }] };
+    const update = receiveEvents(sequence, [relayed(1, "b", mark(2))], "a");
+    expect(update).toEqual({ append: [], rebase: true, gap: false });
+    expect(sequence.outbox).toHaveLength(1);
+  });
+
+  it("stops at a missing event and reports the gap", () => {
+    const sequence = emptySequence();
+    const update = receiveEvents(sequence, [relayed(1, "b", mark(1)), relayed(3, "b", mark(3))], "a");
+    expect(update).toEqual({ append: [mark(1)], rebase: false, gap: true });
+    expect(sequence.lastSeq).toBe(1);
+  });
+});
+
+// Two devices sharing a room, with the relay's ordering under the test's control
+type Device = { id: string; start: GameHistory; history: GameHistory; sequence: RoomSequence; sent: number };
+
+function device(id: string): Device {
+  const start = startHistory(snapshotFor(CONFIG));
+  return { id, start, history: start, sequence: emptySequence(), sent: 0 };
+}
+
+function act(d: Device, event: RoomEvent): RelayedEvent {
+  d.sent += 1;
+  const id = `${d.id}-${d.sent}`;
+  d.history = recordSyncEvent(d.history, event, true);
+  d.sequence.outbox.push({ id, event });
+  return { seq: 0, id, from: d.id, event };
+}
+
+function deliver(d: Device, event: RelayedEvent) {
+  const update = receiveEvents(d.sequence, [event], d.id);
+  if (update.rebase) {
+    d.history = replayRoom(d.start, d.sequence.log, d.sequence.outbox.map((o) => o.event));
+  } else {
+    d.history = update.append.reduce((history, e) => recordSyncEvent(history, e), d.history);
+  }
+}
+
+// Numbers each event as the relay would and hands it to every device
+function relayTo(...devices: Device[]) {
+  let seq = 0;
+  return (event: RelayedEvent) => {
+    seq += 1;
+    devices.forEach((d) => deliver(d, { ...event, seq }));
+  };
+}
+
+function board(d: Device) {
+  const { states } = replayHistory(d.history);
+  return states[states.length - 1].reveals;
+}
+
+describe("relay ordering", () => {
+  it("leaves every device on the same board when their changes cross", () => {
+    const a = device("a");
+    const b = device("b");
+    const relay = relayTo(a, b);
+
+    relay(act(a, mark(5)));
+    // Both change the board before hearing from the other
+    const fromA = act(a, mark(0));
+    const fromB = act(b, { type: "undo" });
+    relay(fromB);
+    relay(fromA);
+
+    expect(board(a)).toEqual(board(b));
+    expect(board(a)[0]).toHaveLength(1);
+    expect(board(a)[5]).toEqual([]);
+    expect(a.sequence.outbox).toEqual([]);
+    expect(b.sequence.outbox).toEqual([]);
+  });
+
+  it("drops a pending mark that a smaller board ordered before it has no card for", () => {
+    const a = device("a");
+    const b = device("b");
+    const relay = relayTo(a, b);
+
+    const small = { ...CONFIG, gridSize: 4, numGood: 5, numBad: 2, overlapGreens: 2, overlaps: defaultOverlaps(2) };
+    const fromA = act(a, mark(20));
+    const fromB = act(b, { type: "action", action: { type: "config", config: small } });
+    relay(fromB);
+    relay(fromA);
+
+    expect(board(a)).toHaveLength(16);
+    expect(board(a)).toEqual(board(b));
+    expect(a.sequence.outbox).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import type { GameHistory } from "@/lib/history";
+import { recordSyncEvent } from "@/lib/sync";
+import type { RelayedEvent, RoomEvent } from "./protocol";
+
+// An event as the relay ordered it. `own` ones were sent from this device.
+export type SequencedEvent = {
+  event: RoomEvent;
+  own: boolean;
+};
+
+// The relay's order is the one every member ends up with. Events this device
+// sent show on its board straight away and wait in `outbox` until the relay
+// echoes them back with their place in the order.
+export type RoomSequence = {
+  lastSeq: number;
+  log: SequencedEvent[];
+  outbox: { id: string; event: RoomEvent }[];
+};
+
+export type SequenceUpdate = {
+  // Events from others that go on top of the board as it is
+  append: RoomEvent[];
+  // Another member's event was ordered before some of ours that are already
+  // on the board, so the board has to be rebuilt in relay order
+  rebase: boolean;
+  // Events were skipped; rejoining replays them from `lastSeq`
+  gap: boolean;
+};
+
+export function emptySequence(): RoomSequence {
+  return { lastSeq: 0, log: [], outbox: [] };
+}
+
+// Takes relayed events into the sequence in place. Events already seen are
+// ignored and nothing past a missing one is taken.
+export function receiveEvents(sequence: RoomSequence, events: RelayedEvent[], clientId: string): SequenceUpdate {
+  const update: SequenceUpdate = { append: [], rebase: false, gap: false };
+  for (const relayed of [...events].sort((a, b) => a.seq - b.seq)) {
+    if (relayed.seq <= sequence.lastSeq) continue;
+    if (relayed.seq > sequence.lastSeq + 1) {
+      update.gap = true;
+      break;
+    }
+    sequence.lastSeq = relayed.seq;
+    const own = relayed.from === clientId;
+    sequence.log.push({ event: relayed.event, own });
+    if (own) {
+      const index = sequence.outbox.findIndex((o) => o.id === relayed.id);
+      // Ours arriving ahead of older ones of ours means the board shows them out of order
+      if (index > 0) update.rebase = true;
+      if (index !== -1) sequence.outbox.splice(index, 1);
+    } else if (sequence.outbox.length > 0 || update.rebase) {
+      update.rebase = true;
+    } else {
+      update.append.push(relayed.event);
+    }
+  }
+  if (update.rebase) update.append = [];
+  return update;
+}
+
+// The board in relay order: the room's starting log, every sequenced event,
+// then what this device sent that the relay hasn't ordered yet
+export function replayRoom(start: GameHistory, log: SequencedEvent[], pending: RoomEvent[]): GameHistory {
+  const ordered = log.reduce((history, e) => recordSyncEvent(history, e.event, e.own), start);
+  return pending.reduce((history, event) => recordSyncEvent(history, event, true), ordered);
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SETTINGS, loadSettings } from "./settings";
+
+describe("loadSettings", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => void store.set(key, value),
+        removeItem: (key: string) => void store.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("moves the cell style saved under the old key into the settings", () => {
+    store.set("codenames-helper:cell-style", JSON.stringify({ palette: "colorblind", symbols: true }));
+    const settings = loadSettings();
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, cellStyle: { palette: "colorblind", symbols: true } });
+    expect(store.has("codenames-helper:cell-style")).toBe(false);
+    expect(JSON.parse(store.get("codenames-helper:settings")!)).toEqual(settings);
+  });
+
+  it("keeps the other settings and a cell style they already hold", () => {
+    const saved = { ...DEFAULT_SETTINGS, confirmNewGame: true, cellStyle: { palette: "standard", symbols: true } };
+    store.set("codenames-helper:settings", JSON.stringify(saved));
+    store.set("codenames-helper:cell-style", JSON.stringify({ palette: "colorblind", symbols: false }));
+    expect(loadSettings()).toEqual(saved);
+    expect(store.has("codenames-helper:cell-style")).toBe(false);
+  });
+
+  it("drops a broken old cell style", () => {
+    store.set("codenames-helper:settings", JSON.stringify({ ...DEFAULT_SETTINGS, motion: "reduce" }));
+    store.set("codenames-helper:cell-style", "{not json");
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, motion: "reduce" });
+    expect(store.has("codenames-helper:cell-style")).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { DEFAULT_CELL_STYLE, isPalette, type CellStyle } from "@/lib/cellStyles";
+import { parseBoardConfig, type BoardConfig } from "@/lib/engine";
+
+// "system" follows prefers-reduced-motion
+export type MotionPreference = "system" | "reduce" | "full";
+
+// Device preferences. They live under their own key, apart from saved games,
+// so clearing or importing games never touches them. The light/dark theme is
+// kept by the color mode provider.
+export type Settings = {
+  cellStyle: CellStyle;
+  // Counts and mode for new games. Seed, side and word pack always come from play.
+  defaultBoard: BoardConfig | null;
+  motion: MotionPreference;
+  confirmNewGame: boolean;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  cellStyle: DEFAULT_CELL_STYLE,
+  defaultBoard: null,
+  motion: "system",
+  confirmNewGame: false,
+};
+
+const SETTINGS_KEY = "codenames-helper:settings";
+// Where the palette and symbols were kept before they became settings
+const LEGACY_CELL_STYLE_KEY = "codenames-helper:cell-style";
+
+function isMotionPreference(value: unknown): value is MotionPreference {
+  return value === "system" || value === "reduce" || value === "full";
+}
+
+// Unknown or broken fields fall back one by one so a bad value never resets everything
+function parseSettings(value: unknown): Settings {
+  if (!value || typeof value !== "object") return DEFAULT_SETTINGS;
+  const raw = value as Record<string, unknown>;
+  const style = (raw.cellStyle ?? {}) as Record<string, unknown>;
+  const board = raw.defaultBoard ? parseBoardConfig(raw.defaultBoard) : null;
+  return {
+    cellStyle: {
+      palette: isPalette(style.palette) ? style.palette : DEFAULT_CELL_STYLE.palette,
+      symbols: typeof style.symbols === "boolean" ? style.symbols : DEFAULT_CELL_STYLE.symbols,
+    },
+    defaultBoard: board?.ok ? board.config : null,
+    motion: isMotionPreference(raw.motion) ? raw.motion : DEFAULT_SETTINGS.motion,
+    confirmNewGame: typeof raw.confirmNewGame === "boolean" ? raw.confirmNewGame : DEFAULT_SETTINGS.confirmNewGame,
+  };
+}
+
+// Moves a cell style saved under the old key into the settings, once. A
+// style already in the settings wins, and a broken one is dropped.
+function migrateCellStyle(raw: unknown): unknown {
+  const legacy = window.localStorage.getItem(LEGACY_CELL_STYLE_KEY);
+  if (legacy === null) return raw;
+  window.localStorage.removeItem(LEGACY_CELL_STYLE_KEY);
+  let cellStyle: unknown = null;
+  try {
+    cellStyle = JSON.parse(legacy);
+  } catch {}
+  const settings = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return settings.cellStyle ? settings : { ...settings, cellStyle };
+}
+
+export function loadSettings(): Settings {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? "null");
+    const migrated = migrateCellStyle(raw);
+    const settings = parseSettings(migrated);
+    if (migrated !== raw) saveSettings(settings);
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {}
+}
+
+// Lets a second screen follow changes made in the spymaster window
+export function isSettingsKey(key: string | null): boolean {
+  return key === SETTINGS_KEY;
+}
+
+export function toDefaultBoard(config: BoardConfig): BoardConfig {
+  const board: BoardConfig = { ...config, seed: "", side: "A" };
+  delete board.wordPack;
+  return board;
+}
+
+// The board a new game starts from, keeping the side and word pack in use
+export function newGameConfig(settings: Settings, current: BoardConfig): BoardConfig {
+  if (!settings.defaultBoard) return current;
+  return { ...settings.defaultBoard, side: current.side, ...(current.wordPack ? { wordPack: current.wordPack } : {}) };
+}
+
+export function applyMotion(motion: MotionPreference) {
+  if (motion === "system") delete document.documentElement.dataset.motion;
+  else document.documentElement.dataset.motion = motion;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { buildPartnerLink, decodeConfigParams, encodeConfigParams } from "./share";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "share me",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+  wordPack: { id: "custom", hash: "0k2x9ab" },
+};
+
+const LOCATION = { origin: "https://example.com", pathname: "/codenames/" } as Location;
+
+describe("partner links", () => {
+  it("open the same board on the other side", () => {
+    const link = buildPartnerLink(CONFIG, LOCATION);
+    expect(link.startsWith("https://example.com/codenames/#")).toBe(true);
+    expect(decodeConfigParams(new URL(link).hash)).toEqual({ ok: true, config: { ...CONFIG, side: "B" } });
+  });
+
+  it("carry classic boards and version 1 boards without overlaps", () => {
+    const classic: BoardConfig = { algorithmVersion: 1, mode: "classic", gridSize: 5, numGood: 9, numBad: 1, seed: "red", side: "A", overlapGreens: 0 };
+    expect(decodeConfigParams(encodeConfigParams(classic))).toEqual({ ok: true, config: classic });
+  });
+});
+
+describe("decodeConfigParams", () => {
+  it("rejects a link whose board was edited after it was shared", () => {
+    const params = new URLSearchParams(encodeConfigParams(CONFIG));
+    params.set("s", "share you");
+    const result = decodeConfigParams(params.toString());
+    expect(result).toMatchObject({ ok: false });
+    expect(result?.ok === false && result.error).toMatch(/^Config hash mismatch/);
+  });
+
+  it("rejects a tampered digest", () => {
+    const params = new URLSearchParams(encodeConfigParams(CONFIG));
+    params.set("d", "zzz");
+    expect(decodeConfigParams(`#${params}`)).toMatchObject({ ok: false });
+  });
+
+  it("ignores params that don't describe a board", () => {
+    expect(decodeConfigParams("?room=abc")).toBeNull();
+  });
+});
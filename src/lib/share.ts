@@ -0,0 +1,89 @@
+import { configDigest, oppositeSide, parseBoardConfig, type BoardConfig, type ConfigParseResult } from "@/lib/engine";
+
+// Short keys keep links compact enough to paste into chats and QR codes.
+const KEYS = {
+  algorithmVersion: "v",
+  mode: "m",
+  gridSize: "n",
+  numGood: "g",
+  numBad: "b",
+  overlapGreens: "o",
+  blackBlack: "xb",
+  blackGreen: "xg",
+  blackYellow: "xy",
+  seed: "s",
+  side: "side",
+  packId: "p",
+  packHash: "ph",
+  digest: "d",
+} as const;
+
+function toInteger(value: string | null): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  return Number.parseInt(value, 10);
+}
+
+export function encodeConfigParams(config: BoardConfig): string {
+  const params = new URLSearchParams();
+  params.set(KEYS.algorithmVersion, String(config.algorithmVersion));
+  // Duet is the default so links to Duet boards stay as short as before
+  if (config.mode !== "duet") params.set(KEYS.mode, config.mode);
+  params.set(KEYS.gridSize, String(config.gridSize));
+  params.set(KEYS.numGood, String(config.numGood));
+  params.set(KEYS.numBad, String(config.numBad));
+  params.set(KEYS.overlapGreens, String(config.overlapGreens));
+  if (config.overlaps) {
+    params.set(KEYS.blackBlack, String(config.overlaps.blackBlack));
+    params.set(KEYS.blackGreen, String(config.overlaps.blackGreen));
+    params.set(KEYS.blackYellow, String(config.overlaps.blackYellow));
+  }
+  params.set(KEYS.seed, config.seed);
+  params.set(KEYS.side, config.side);
+  if (config.wordPack) {
+    params.set(KEYS.packId, config.wordPack.id);
+    params.set(KEYS.packHash, config.wordPack.hash);
+  }
+  params.set(KEYS.digest, configDigest(config));
+  return params.toString();
+}
+
+// Decode a config and verify it against the digest it was shared with.
+// Returns null when the params don't describe a board at all.
+export function decodeConfigParams(query: string): ConfigParseResult | null {
+  const params = new URLSearchParams(query.replace(/^[#?]/, ""));
+  if (!params.has(KEYS.seed) || !params.has(KEYS.digest)) return null;
+
+  const parsed = parseBoardConfig({
+    algorithmVersion: toInteger(params.get(KEYS.algorithmVersion)),
+    mode: params.get(KEYS.mode) ?? undefined,
+    gridSize: toInteger(params.get(KEYS.gridSize)),
+    numGood: toInteger(params.get(KEYS.numGood)),
+    numBad: toInteger(params.get(KEYS.numBad)),
+    overlapGreens: toInteger(params.get(KEYS.overlapGreens)),
+    overlaps: params.has(KEYS.blackBlack)
+      ? {
+          blackBlack: toInteger(params.get(KEYS.blackBlack)),
+          blackGreen: toInteger(params.get(KEYS.blackGreen)),
+          blackYellow: toInteger(params.get(KEYS.blackYellow)),
+        }
+      : undefined,
+    seed: params.get(KEYS.seed),
+    side: params.get(KEYS.side),
+    wordPack: params.has(KEYS.packId) ? { id: params.get(KEYS.packId), hash: params.get(KEYS.packHash) } : undefined,
+  });
+  if (!parsed.ok) return parsed;
+
+  const expected = params.get(KEYS.digest);
+  const actual = configDigest(parsed.config);
+  if (expected !== actual) {
+    return { ok: false, error: `Config hash mismatch (link says ${expected}, board would be ${actual}). The link was probably cut off or edited.` };
+  }
+  return parsed;
+}
+
+// The board lives in the hash so the link works under any base path
+// (e.g. GitHub Pages project sites) without server-side routing.
+export function buildPartnerLink(config: BoardConfig, location: Location): string {
+  const partner: BoardConfig = { ...config, side: oppositeSide(config.side) };
+  return `${location.origin}${location.pathname}#${encodeConfigParams(partner)}`;
+}
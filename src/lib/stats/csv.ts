@@ -0,0 +1,31 @@
+import type { FinishedGame } from "./record";
+
+const COLUMNS: { header: string; value: (game: FinishedGame) => string | number | boolean }[] = [
+  { header: "finished_at", value: (g) => new Date(g.finishedAt).toISOString() },
+  { header: "digest", value: (g) => g.digest },
+  { header: "seed", value: (g) => g.config.seed },
+  { header: "algorithm_version", value: (g) => g.config.algorithmVersion },
+  { header: "grid_size", value: (g) => g.config.gridSize },
+  { header: "num_good", value: (g) => g.config.numGood },
+  { header: "num_bad", value: (g) => g.config.numBad },
+  { header: "overlap_greens", value: (g) => g.config.overlapGreens },
+  { header: "timer_tokens", value: (g) => g.rules.timerTokens },
+  { header: "mistakes_allowed", value: (g) => g.rules.mistakesAllowed },
+  { header: "outcome", value: (g) => g.outcome },
+  { header: "loss_reason", value: (g) => g.lossReason ?? "" },
+  { header: "turns", value: (g) => g.turns },
+  { header: "mistakes", value: (g) => g.mistakes },
+  { header: "assassin_hits", value: (g) => g.assassinHits },
+  { header: "practice", value: (g) => g.practice },
+];
+
+function escapeCell(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per game, oldest first, for spreadsheets
+export function finishedGamesToCsv(games: FinishedGame[]): string {
+  const rows = [...games].sort((a, b) => a.finishedAt - b.finishedAt).map((g) => COLUMNS.map((c) => escapeCell(c.value(g))).join(","));
+  return [COLUMNS.map((c) => c.header).join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,4 @@
+export { finishedGame, isFinishedGame, type FinishedGame, type GameOutcome } from "./record";
+export { MAX_FINISHED_GAMES, clearFinishedGames, isStatsKey, loadFinishedGames, recordFinishedGame } from "./store";
+export { BREAKDOWNS, breakdown, summarize, type Breakdown, type StatsGroup, type StatsSummary } from "./summary";
+export { finishedGamesToCsv } from "./csv";
@@ -0,0 +1,62 @@
+import { configDigest, type BoardConfig } from "@/lib/engine";
+import { isGameOver, type DuetLossReason, type DuetRules } from "@/lib/game";
+import type { HistorySnapshot } from "@/lib/history";
+
+export type GameOutcome = "won" | "lost";
+
+// One finished Duet game. Classic boards have no turns or outcome to record.
+export type FinishedGame = {
+  // Saved game and board start, so finishing the same game again after an
+  // undo replaces its earlier result instead of counting twice
+  id: string;
+  finishedAt: number;
+  config: BoardConfig;
+  digest: string;
+  rules: DuetRules;
+  outcome: GameOutcome;
+  lossReason: DuetLossReason | null;
+  turns: number;
+  mistakes: number;
+  assassinHits: number;
+  // Played against the computer partner
+  practice: boolean;
+};
+
+export function finishedGame(id: string, state: HistorySnapshot, practice: boolean, at = Date.now()): FinishedGame | null {
+  const { config, game } = state;
+  if (!game || !isGameOver(game)) return null;
+  const board: BoardConfig = { ...config };
+  delete board.wordPack;
+  return {
+    id,
+    finishedAt: at,
+    config: board,
+    digest: configDigest(config),
+    rules: game.rules,
+    outcome: game.status === "won" ? "won" : "lost",
+    lossReason: game.lossReason ?? null,
+    turns: game.turn,
+    mistakes: game.mistakes,
+    assassinHits: game.guesses.filter((g) => g.color === "black").length,
+    practice,
+  };
+}
+
+export function isFinishedGame(value: unknown): value is FinishedGame {
+  if (!value || typeof value !== "object") return false;
+  const g = value as Record<string, unknown>;
+  return (
+    typeof g.id === "string" &&
+    typeof g.finishedAt === "number" &&
+    typeof g.digest === "string" &&
+    !!g.config &&
+    typeof g.config === "object" &&
+    !!g.rules &&
+    typeof g.rules === "object" &&
+    (g.outcome === "won" || g.outcome === "lost") &&
+    typeof g.turns === "number" &&
+    typeof g.mistakes === "number" &&
+    typeof g.assassinHits === "number" &&
+    typeof g.practice === "boolean"
+  );
+}
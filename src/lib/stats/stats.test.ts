@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, configDigest, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { createDuetGame, type DuetGame } from "@/lib/game";
+import { snapshotFor } from "@/lib/history";
+import { finishedGamesToCsv } from "./csv";
+import { finishedGame, type FinishedGame } from "./record";
+import { breakdown, summarize } from "./summary";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "stats",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+
+function finished(overrides: Partial<FinishedGame> = {}): FinishedGame {
+  return {
+    id: "game",
+    finishedAt: Date.UTC(2026, 0, 1),
+    config: CONFIG,
+    digest: configDigest(CONFIG),
+    rules: { timerTokens: 9, mistakesAllowed: 9 },
+    outcome: "won",
+    lossReason: null,
+    turns: 6,
+    mistakes: 1,
+    assassinHits: 0,
+    practice: false,
+    ...overrides,
+  };
+}
+
+describe("finishedGame", () => {
+  const lost: DuetGame = {
+    ...createDuetGame(),
+    turn: 4,
+    mistakes: 2,
+    status: "lost",
+    lossReason: "assassin",
+    guesses: [
+      { index: 0, clueGiver: "A", color: "yellow", turn: 1 },
+      { index: 1, clueGiver: "B", color: "black", turn: 4 },
+    ],
+  };
+
+  it("records the outcome, turns, mistakes and assassins of a finished game", () => {
+    const game = finishedGame("id", snapshotFor(CONFIG, undefined, undefined, lost), true, 5);
+    expect(game).toMatchObject({ id: "id", finishedAt: 5, outcome: "lost", lossReason: "assassin", turns: 4, mistakes: 2, assassinHits: 1, practice: true });
+  });
+
+  it("leaves the word pack out of the stored board", () => {
+    const config = { ...CONFIG, wordPack: { id: "custom", hash: "abc" } };
+    const game = finishedGame("id", snapshotFor(config, undefined, undefined, lost), false);
+    expect(game?.config).toEqual(CONFIG);
+    expect(game?.practice).toBe(false);
+  });
+
+  it("records nothing while the game is on or without one", () => {
+    expect(finishedGame("id", snapshotFor(CONFIG, undefined, undefined, createDuetGame()), false)).toBeNull();
+    expect(finishedGame("id", snapshotFor(CONFIG), false)).toBeNull();
+  });
+});
+
+describe("summarize", () => {
+  it("averages turns and mistakes and totals assassin hits", () => {
+    const games = [finished({ turns: 4, mistakes: 0 }), finished({ outcome: "lost", turns: 8, mistakes: 3, assassinHits: 1 })];
+    expect(summarize(games)).toEqual({ games: 2, wins: 1, winRate: 0.5, averageTurns: 6, averageMistakes: 1.5, assassinHits: 1 });
+  });
+
+  it("has no rates or averages without games", () => {
+    expect(summarize([])).toEqual({ games: 0, wins: 0, winRate: null, averageTurns: null, averageMistakes: null, assassinHits: 0 });
+  });
+});
+
+describe("breakdown", () => {
+  it("groups games by board setting in order", () => {
+    const big = { ...CONFIG, gridSize: 6, numGood: 13, numBad: 4 };
+    const games = [finished({ config: big }), finished(), finished({ outcome: "lost" })];
+    const groups = breakdown(games, "gridSize");
+    expect(groups.map((g) => g.label)).toEqual(["5×5", "6×6"]);
+    expect(groups[0].summary).toMatchObject({ games: 2, wins: 1 });
+    expect(breakdown(games, "counts").map((g) => g.label)).toEqual(["9 agents, 3 assassins", "13 agents, 4 assassins"]);
+  });
+});
+
+describe("finishedGamesToCsv", () => {
+  it("writes a header and one row per game, oldest first", () => {
+    const csv = finishedGamesToCsv([finished({ finishedAt: Date.UTC(2026, 0, 2), turns: 9 }), finished({ turns: 5 })]);
+    const [header, first, second, end] = csv.split("\r\n");
+    expect(header.split(",")[0]).toBe("finished_at");
+    expect(first).toContain("2026-01-01T00:00:00.000Z");
+    expect(second).toContain("2026-01-02T00:00:00.000Z");
+    expect(end).toBe("");
+  });
+
+  it("quotes seeds with commas, quotes or line breaks", () => {
+    const csv = finishedGamesToCsv([finished({ config: { ...CONFIG, seed: 'a "b",\nc' } })]);
+    expect(csv.split("\r\n")[1]).toContain(',"a ""b"",\nc",');
+  });
+});
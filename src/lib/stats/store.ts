@@ -0,0 +1,36 @@
+import { isFinishedGame, type FinishedGame } from "./record";
+
+const STATS_KEY = "codenames-helper:stats";
+// Oldest results are dropped past this so localStorage never fills up
+export const MAX_FINISHED_GAMES = 1000;
+
+// Most recently finished first
+export function loadFinishedGames(): FinishedGame[] {
+  try {
+    const raw: unknown = JSON.parse(window.localStorage.getItem(STATS_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isFinishedGame) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveFinishedGames(games: FinishedGame[]) {
+  try {
+    window.localStorage.setItem(STATS_KEY, JSON.stringify(games.slice(0, MAX_FINISHED_GAMES)));
+  } catch {}
+}
+
+export function recordFinishedGame(game: FinishedGame) {
+  saveFinishedGames([game, ...loadFinishedGames().filter((g) => g.id !== game.id)]);
+}
+
+export function clearFinishedGames() {
+  try {
+    window.localStorage.removeItem(STATS_KEY);
+  } catch {}
+}
+
+// Lets an open stats page follow games finished in another tab
+export function isStatsKey(key: string | null): boolean {
+  return key === STATS_KEY;
+}
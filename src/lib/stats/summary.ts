@@ -0,0 +1,66 @@
+import type { FinishedGame } from "./record";
+
+export type StatsSummary = {
+  games: number;
+  wins: number;
+  // 0 to 1; null without games
+  winRate: number | null;
+  averageTurns: number | null;
+  averageMistakes: number | null;
+  assassinHits: number;
+};
+
+export type StatsGroup = {
+  label: string;
+  summary: StatsSummary;
+};
+
+export type Breakdown = "gridSize" | "counts" | "overlapGreens";
+
+export const BREAKDOWNS: Record<Breakdown, { title: string; label: (game: FinishedGame) => string; order: (game: FinishedGame) => number }> = {
+  gridSize: {
+    title: "Grid size",
+    label: ({ config }) => `${config.gridSize}×${config.gridSize}`,
+    order: ({ config }) => config.gridSize,
+  },
+  counts: {
+    title: "Agents and assassins",
+    label: ({ config }) => `${config.numGood} agents, ${config.numBad} assassin${config.numBad === 1 ? "" : "s"}`,
+    order: ({ config }) => config.numGood * 100 + config.numBad,
+  },
+  overlapGreens: {
+    title: "Shared agents",
+    label: ({ config }) => `${config.overlapGreens} shared`,
+    order: ({ config }) => config.overlapGreens,
+  },
+};
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+export function summarize(games: FinishedGame[]): StatsSummary {
+  const wins = games.filter((g) => g.outcome === "won").length;
+  return {
+    games: games.length,
+    wins,
+    winRate: games.length > 0 ? wins / games.length : null,
+    averageTurns: average(games.map((g) => g.turns)),
+    averageMistakes: average(games.map((g) => g.mistakes)),
+    assassinHits: games.reduce((sum, g) => sum + g.assassinHits, 0),
+  };
+}
+
+export function breakdown(games: FinishedGame[], by: Breakdown): StatsGroup[] {
+  const { label, order } = BREAKDOWNS[by];
+  const groups = new Map<string, { order: number; games: FinishedGame[] }>();
+  for (const game of games) {
+    const key = label(game);
+    const group = groups.get(key) ?? { order: order(game), games: [] };
+    group.games.push(game);
+    groups.set(key, group);
+  }
+  return [...groups.entries()]
+    .sort(([, a], [, b]) => a.order - b.order)
+    .map(([key, group]) => ({ label: key, summary: summarize(group.games) }));
+}
@@ -0,0 +1,102 @@
+import { isValidCampaignGame, type CampaignGame } from "@/lib/campaign";
+import { configDigest, isCellColor, parseBoardConfig } from "@/lib/engine";
+import { isValidReveals } from "@/lib/game";
+import { isValidHistory, replayHistory } from "@/lib/history";
+import { isValidPractice, type PracticeSetup } from "@/lib/practice";
+import { migrateV2 } from "./migrations";
+import { SCHEMA_VERSION, type GameRecord, type PersistedStateV2 } from "./schema";
+
+const FILE_APP = "codenames-helper";
+
+// A downloaded game. It carries the full schema 2 board next to the log so
+// the file stays readable on its own.
+export type GameFile = PersistedStateV2 & {
+  app: typeof FILE_APP;
+  schemaVersion: number;
+  name: string;
+  exportedAt: number;
+  practice?: PracticeSetup;
+  campaign?: CampaignGame;
+};
+
+export type GameFileParseResult =
+  | { ok: true; name: string; record: GameRecord }
+  | { ok: false; error: string };
+
+export function exportGameFile(record: GameRecord, name: string, at = Date.now()): GameFile {
+  const { states } = replayHistory(record.history);
+  const { config, cells, reveals, game } = states[states.length - 1];
+  return {
+    app: FILE_APP,
+    schemaVersion: SCHEMA_VERSION,
+    name,
+    exportedAt: at,
+    config,
+    cells,
+    reveals,
+    game,
+    wordMode: record.wordMode,
+    words: record.words,
+    history: record.history,
+    ...(record.practice ? { practice: record.practice } : {}),
+    ...(record.campaign ? { campaign: record.campaign } : {}),
+  };
+}
+
+export function gameFileName(name: string, record: GameRecord): string {
+  const { states } = replayHistory(record.history);
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "game";
+  return `${slug}-${configDigest(states[states.length - 1].config)}.json`;
+}
+
+export function parseGameFile(text: string): GameFileParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file isn't valid JSON." };
+  }
+  if (!raw || typeof raw !== "object") return { ok: false, error: "This file isn't a Codenames Helper game." };
+  const file = raw as Record<string, unknown>;
+  if (file.app !== FILE_APP) return { ok: false, error: "This file isn't a Codenames Helper game." };
+  if (typeof file.schemaVersion !== "number" || !Number.isInteger(file.schemaVersion)) {
+    return { ok: false, error: "The file has no schema version." };
+  }
+  if (file.schemaVersion > SCHEMA_VERSION) {
+    return { ok: false, error: `This game was saved by a newer version of the app (schema ${file.schemaVersion}). Update the app to open it.` };
+  }
+
+  const parsed = parseBoardConfig(file.config);
+  if (!parsed.ok) return { ok: false, error: `The board config is invalid: ${parsed.error}` };
+  const { config } = parsed;
+  const total = config.gridSize * config.gridSize;
+  const { cells, reveals, game, wordMode, words, history, practice, campaign } = file;
+  if (!Array.isArray(cells) || cells.length !== total || !cells.every(isCellColor)) {
+    return { ok: false, error: `The file should have ${total} cell colors.` };
+  }
+  if (!isValidReveals(reveals, total)) return { ok: false, error: "The reveal marks are malformed." };
+  if (game !== undefined && game !== null && (typeof game !== "object" || !Array.isArray((game as { guesses?: unknown }).guesses))) {
+    return { ok: false, error: "The Duet game state is malformed." };
+  }
+  if (wordMode !== undefined && wordMode !== "off" && wordMode !== "deal" && wordMode !== "manual") {
+    return { ok: false, error: `Unknown word mode "${String(wordMode)}".` };
+  }
+  if (words !== undefined && (!Array.isArray(words) || !words.every((w) => typeof w === "string"))) {
+    return { ok: false, error: "The words should be a list of strings." };
+  }
+  if (history !== undefined && !isValidHistory(history)) {
+    return { ok: false, error: "The game history in this file can't be replayed." };
+  }
+  if (practice !== undefined && !isValidPractice(practice)) {
+    return { ok: false, error: "The practice settings are malformed." };
+  }
+  if (campaign !== undefined && !isValidCampaignGame(campaign)) {
+    return { ok: false, error: "The campaign level in this file is unknown." };
+  }
+
+  const migrated = migrateV2({ ...(file as PersistedStateV2), config });
+  if (!migrated) return { ok: false, error: "The file doesn't describe a board this app can open." };
+  const record = { ...migrated, ...(practice !== undefined ? { practice } : {}), ...(campaign !== undefined ? { campaign } : {}) };
+  const name = typeof file.name === "string" && file.name.trim() ? file.name.trim() : `Imported board ${configDigest(config)}`;
+  return { ok: true, name, record };
+}
@@ -0,0 +1,26 @@
+export type {
+  GameProgress,
+  GameRecord,
+  LibraryV3,
+  PersistedStateLegacy,
+  PersistedStateV2,
+  SavedGameMeta,
+  StoredGameV3,
+} from "./schema";
+export { SCHEMA_VERSION } from "./schema";
+export type { GameFile, GameFileParseResult } from "./file";
+export { exportGameFile, gameFileName, parseGameFile } from "./file";
+export { migrateLegacy, migrateStoredGame, migrateV2 } from "./migrations";
+export {
+  dropGame,
+  emptyLibrary,
+  loadGame,
+  loadLibrary,
+  newGameId,
+  removeGame,
+  renameGame,
+  saveGame,
+  saveLibrary,
+  summarizeGame,
+  upsertGame,
+} from "./library";
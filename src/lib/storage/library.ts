@@ -0,0 +1,122 @@
+import { configDigest, randomSeed } from "@/lib/engine";
+import { isResolved } from "@/lib/game";
+import { replayHistory } from "@/lib/history";
+import { migrateStoredGame } from "./migrations";
+import { SCHEMA_VERSION, type GameRecord, type LibraryV3, type SavedGameMeta, type StoredGameV3 } from "./schema";
+
+const LIBRARY_KEY = "codenames-helper:library";
+const GAME_KEY_PREFIX = "codenames-helper:game:";
+// Where single-game versions of the app kept their board. It is read once
+// when the library is first created and left in place for older builds.
+const LEGACY_KEY = "codenames-helper:v1";
+
+function readJson(key: string): unknown {
+  try {
+    const raw = typeof window !== "undefined" ? window.localStorage.getItem(key) : null;
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {}
+}
+
+function isGameMeta(value: unknown): value is SavedGameMeta {
+  if (!value || typeof value !== "object") return false;
+  const meta = value as SavedGameMeta;
+  return (
+    typeof meta.id === "string" &&
+    typeof meta.name === "string" &&
+    typeof meta.createdAt === "number" &&
+    typeof meta.updatedAt === "number" &&
+    typeof meta.digest === "string" &&
+    !!meta.progress &&
+    typeof meta.progress.resolved === "number"
+  );
+}
+
+function isLibrary(value: unknown): value is LibraryV3 {
+  if (!value || typeof value !== "object") return false;
+  const library = value as LibraryV3;
+  return library.schemaVersion === SCHEMA_VERSION && Array.isArray(library.games) && library.games.every(isGameMeta);
+}
+
+export function emptyLibrary(): LibraryV3 {
+  return { schemaVersion: SCHEMA_VERSION, activeId: null, games: [] };
+}
+
+export function newGameId(): string {
+  return `${Date.now().toString(36)}-${randomSeed()}`;
+}
+
+export function summarizeGame(record: GameRecord): Pick<SavedGameMeta, "digest" | "progress"> {
+  const { states } = replayHistory(record.history);
+  const { config, reveals, game } = states[states.length - 1];
+  return {
+    digest: configDigest(config),
+    progress: { resolved: reveals.filter(isResolved).length, total: reveals.length, status: game ? game.status : null },
+  };
+}
+
+// Add the game if it is new, otherwise refresh its summary and move it to the top
+export function upsertGame(library: LibraryV3, id: string, record: GameRecord, name?: string, at = Date.now()): LibraryV3 {
+  const existing = library.games.find((g) => g.id === id);
+  const summary = summarizeGame(record);
+  const meta: SavedGameMeta = existing
+    ? { ...existing, ...summary, name: name ?? existing.name, updatedAt: at }
+    : { id, name: name ?? `Board ${summary.digest}`, createdAt: at, updatedAt: at, ...summary };
+  return { ...library, games: [meta, ...library.games.filter((g) => g.id !== id)] };
+}
+
+export function renameGame(library: LibraryV3, id: string, name: string): LibraryV3 {
+  return { ...library, games: library.games.map((g) => (g.id === id ? { ...g, name } : g)) };
+}
+
+export function dropGame(library: LibraryV3, id: string): LibraryV3 {
+  return {
+    ...library,
+    activeId: library.activeId === id ? null : library.activeId,
+    games: library.games.filter((g) => g.id !== id),
+  };
+}
+
+export function saveLibrary(library: LibraryV3) {
+  writeJson(LIBRARY_KEY, library);
+}
+
+export function saveGame(id: string, record: GameRecord) {
+  const stored: StoredGameV3 = { schemaVersion: SCHEMA_VERSION, ...record };
+  writeJson(GAME_KEY_PREFIX + id, stored);
+}
+
+export function loadGame(id: string): GameRecord | null {
+  return migrateStoredGame(readJson(GAME_KEY_PREFIX + id));
+}
+
+export function removeGame(id: string) {
+  try {
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(GAME_KEY_PREFIX + id);
+    }
+  } catch {}
+}
+
+// Read the library, creating it from the single saved game of older versions
+// on first run.
+export function loadLibrary(): LibraryV3 {
+  const stored = readJson(LIBRARY_KEY);
+  if (isLibrary(stored)) return stored;
+  const record = migrateStoredGame(readJson(LEGACY_KEY));
+  if (!record) return emptyLibrary();
+  const id = newGameId();
+  saveGame(id, record);
+  const library = { ...upsertGame(emptyLibrary(), id, record, "Saved game"), activeId: id };
+  saveLibrary(library);
+  return library;
+}
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { replayHistory } from "@/lib/history";
+import schema1 from "./__fixtures__/schema1-legacy.json";
+import schema2Game from "./__fixtures__/schema2-game.json";
+import schema2Unversioned from "./__fixtures__/schema2-unversioned.json";
+import schema3 from "./__fixtures__/schema3-game.json";
+import { exportGameFile, parseGameFile } from "./file";
+import { loadGame, loadLibrary, saveGame, saveLibrary, upsertGame } from "./library";
+import { migrateLegacy, migrateStoredGame, migrateV2 } from "./migrations";
+import type { GameRecord, PersistedStateLegacy, PersistedStateV2 } from "./schema";
+
+// Fixtures are saves as each schema wrote them, so they must never be
+// regenerated from the current code
+
+function lastState(record: GameRecord) {
+  const { states } = replayHistory(record.history);
+  return states[states.length - 1];
+}
+
+describe("migrateLegacy (schema 1 -> 2)", () => {
+  it("reads the original single board as a version 1 Duet config on side A", () => {
+    const migrated = migrateLegacy(schema1 as PersistedStateLegacy);
+    expect(migrated?.config).toEqual({
+      algorithmVersion: 1,
+      mode: "duet",
+      gridSize: 5,
+      numGood: 9,
+      numBad: 3,
+      seed: "k3v9",
+      side: "A",
+      overlapGreens: 3,
+    });
+    expect(migrated?.cells).toEqual(schema1.cells);
+  });
+
+  it("turns revealed flags into marks made while checking side A's key", () => {
+    const migrated = migrateLegacy(schema1 as PersistedStateLegacy);
+    schema1.revealed.forEach((revealed, i) => {
+      expect(migrated?.reveals?.[i]).toEqual(revealed ? [{ by: "B", color: schema1.cells[i] }] : []);
+    });
+  });
+
+  it("infers the grid size and counts when the save left them out", () => {
+    const { cells, revealed } = schema1;
+    const migrated = migrateLegacy({ cells: cells as PersistedStateLegacy["cells"], revealed });
+    expect(migrated?.config).toMatchObject({ gridSize: 5, numGood: 9, numBad: 3 });
+    expect(migrated?.config.seed).toMatch(/^[0-9a-z]{4}$/);
+  });
+
+  it("rejects boards whose cells and flags don't match the grid", () => {
+    expect(migrateLegacy({ ...schema1, revealed: schema1.revealed.slice(1) } as PersistedStateLegacy)).toBeNull();
+    expect(migrateLegacy({ ...schema1, gridSize: 6 } as PersistedStateLegacy)).toBeNull();
+    expect(migrateLegacy({})).toBeNull();
+  });
+});
+
+describe("migrateV2 (schema 2 -> 3)", () => {
+  it("defaults unversioned configs to algorithm version 1", () => {
+    const record = migrateV2(schema2Unversioned as PersistedStateV2);
+    expect(record).not.toBeNull();
+    const { config, cells } = lastState(record!);
+    expect(config).toMatchObject({ algorithmVersion: 1, mode: "duet", side: "B", overlapGreens: 2, seed: "k3v9" });
+    expect(cells).toEqual(schema2Unversioned.cells);
+    expect(record!.wordMode).toBe("off");
+  });
+
+  it("fills in side and shared agents on the oldest configs", () => {
+    const oldest = { gridSize: 5, numGood: 9, numBad: 3, seed: "k3v9" };
+    const record = migrateV2({ ...schema2Unversioned, config: oldest } as PersistedStateV2);
+    expect(lastState(record!).config).toMatchObject({ algorithmVersion: 1, side: "A", overlapGreens: 3 });
+  });
+
+  it("keeps words, per-side reveals and the Duet game", () => {
+    const record = migrateV2(schema2Game as PersistedStateV2);
+    expect(record?.wordMode).toBe("manual");
+    expect(record?.words).toEqual(schema2Game.words);
+    const state = lastState(record!);
+    expect(state.config).toEqual(schema2Game.config);
+    expect(state.game).toEqual(schema2Game.game);
+    expect(record?.history.entries).toEqual([]);
+  });
+
+  it("drops words that don't fit the grid", () => {
+    const record = migrateV2({ ...schema2Game, words: ["one", "two"] } as PersistedStateV2);
+    expect(record).toMatchObject({ wordMode: "off", words: [] });
+  });
+
+  it("rejects unknown algorithm versions and mismatched boards", () => {
+    expect(migrateV2({ ...schema2Game, config: { ...schema2Game.config, algorithmVersion: 99 } } as unknown as PersistedStateV2)).toBeNull();
+    expect(migrateV2({ ...schema2Game, cells: schema2Game.cells.slice(1) } as PersistedStateV2)).toBeNull();
+    expect(migrateV2({ ...schema2Unversioned, revealed: [] } as unknown as PersistedStateV2)).toBeNull();
+  });
+});
+
+describe("migrateStoredGame", () => {
+  it("brings every schema up to the current one", () => {
+    expect(migrateStoredGame(schema1)).not.toBeNull();
+    expect(migrateStoredGame(schema2Unversioned)).not.toBeNull();
+    expect(migrateStoredGame(schema2Game)).not.toBeNull();
+    const current = migrateStoredGame(schema3);
+    expect(current?.history).toEqual(schema3.history);
+    expect(current?.practice).toEqual({ level: "hard" });
+    expect(current?.campaign).toEqual({ levelId: "madrid", attempt: 2 });
+    expect(lastState(current!).game?.guesses).toHaveLength(1);
+  });
+
+  it("drops optional settings it doesn't recognize", () => {
+    const record = migrateStoredGame({ ...schema3, practice: { level: "impossible" }, campaign: { levelId: "atlantis", attempt: 1 } });
+    expect(record).not.toBeNull();
+    expect(record).not.toHaveProperty("practice");
+    expect(record).not.toHaveProperty("campaign");
+  });
+
+  it("rejects newer schemas, logs that don't replay and anything that isn't a save", () => {
+    expect(migrateStoredGame({ ...schema3, schemaVersion: 4 })).toBeNull();
+    expect(migrateStoredGame({ ...schema3, history: { base: schema3.history.base, entries: [{ type: "config", config: { ...schema3.history.base.config, algorithmVersion: 99 }, at: 0 }] } })).toBeNull();
+    expect(migrateStoredGame(null)).toBeNull();
+    expect(migrateStoredGame("not a game")).toBeNull();
+    expect(migrateStoredGame([])).toBeNull();
+  });
+
+  it("rejects logs that start from a board this version can't deal or that has no marks", () => {
+    const { base } = schema3.history;
+    const unknownVersion = { ...base, config: { ...base.config, algorithmVersion: 7 } };
+    const unmarked = { ...base, reveals: undefined };
+    expect(migrateStoredGame({ ...schema3, history: { base: unknownVersion, entries: [] } })).toBeNull();
+    expect(migrateStoredGame({ ...schema3, history: { base: unmarked, entries: [] } })).toBeNull();
+    expect(migrateStoredGame({ ...schema3, history: { base: { ...base, cells: base.cells.slice(1) }, entries: [] } })).toBeNull();
+  });
+});
+
+describe("parseGameFile", () => {
+  it("refuses a file whose history starts from a board it can't replay", () => {
+    const file = exportGameFile(migrateStoredGame(schema3)!, "Madrid");
+    expect(parseGameFile(JSON.stringify(file))).toMatchObject({ ok: true, name: "Madrid" });
+    const { base } = file.history!;
+    const broken = { ...file, history: { base: { ...base, config: { ...base.config, algorithmVersion: 7 }, reveals: undefined }, entries: [] } };
+    expect(parseGameFile(JSON.stringify(broken))).toEqual({ ok: false, error: "The game history in this file can't be replayed." });
+  });
+});
+
+describe("library storage", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => void store.set(key, value),
+        removeItem: (key: string) => void store.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates the library from the schema 1 save and leaves the old key in place", () => {
+    store.set("codenames-helper:v1", JSON.stringify(schema1));
+    const library = loadLibrary();
+    expect(library.games).toHaveLength(1);
+    expect(library.activeId).toBe(library.games[0].id);
+    expect(lastState(loadGame(library.activeId!)!).config.seed).toBe("k3v9");
+    expect(store.get("codenames-helper:v1")).toBe(JSON.stringify(schema1));
+  });
+
+  it("rejects a game with bad JSON without losing the library or the other games", () => {
+    const good = migrateStoredGame(schema3)!;
+    saveGame("good", good);
+    const library = upsertGame(upsertGame({ schemaVersion: 3, activeId: "good", games: [] }, "good", good, "Good"), "broken", good, "Broken");
+    saveLibrary(library);
+    store.set("codenames-helper:game:broken", "{ not json");
+
+    expect(loadGame("broken")).toBeNull();
+    expect(loadLibrary()).toEqual(library);
+    expect(loadGame("good")).toEqual(good);
+  });
+
+  it("starts an empty library when the old save is unreadable", () => {
+    store.set("codenames-helper:v1", "{ not json");
+    expect(loadLibrary().games).toEqual([]);
+    expect(store.get("codenames-helper:v1")).toBe("{ not json");
+  });
+});
@@ -0,0 +1,91 @@
+import { isValidCampaignGame } from "@/lib/campaign";
+import { isSupportedAlgorithmVersion, randomSeed, type BoardConfig } from "@/lib/engine";
+import { isValidReveals, revealsFromBooleans } from "@/lib/game";
+import { isValidHistory, replayHistory, snapshotFor, startHistory } from "@/lib/history";
+import { isValidPractice } from "@/lib/practice";
+import type { WordMode } from "@/lib/words";
+import { SCHEMA_VERSION, type GameRecord, type PersistedStateLegacy, type PersistedStateV2, type StoredGameV3 } from "./schema";
+
+const WORD_MODES: WordMode[] = ["off", "deal", "manual"];
+
+function inferGridSizeFromCells(cells?: unknown[]): number | null {
+  if (!Array.isArray(cells)) return null;
+  const size = Math.sqrt(cells.length);
+  return Number.isInteger(size) ? size : null;
+}
+
+// Schema 1 -> 2. Old saves only had Duet boards generated by version 1.
+export function migrateLegacy(legacy: PersistedStateLegacy): PersistedStateV2 | null {
+  const gridSize = legacy.gridSize ?? inferGridSizeFromCells(legacy.cells) ?? 5;
+  const expected = gridSize * gridSize;
+  if (!Array.isArray(legacy.cells) || legacy.cells.length !== expected) return null;
+  if (!Array.isArray(legacy.revealed) || legacy.revealed.length !== expected) return null;
+  const config: BoardConfig = {
+    algorithmVersion: 1,
+    mode: "duet",
+    gridSize,
+    numGood: legacy.numGood ?? legacy.cells.filter((c) => c === "green").length,
+    numBad: legacy.numBad ?? legacy.cells.filter((c) => c === "black").length,
+    seed: legacy.seed ?? randomSeed(),
+    side: "A",
+    overlapGreens: 3,
+  };
+  return { config, cells: legacy.cells, reveals: revealsFromBooleans(legacy.revealed, legacy.cells, "A") };
+}
+
+// Schema 2 -> 3. Fills in config fields added after the game was saved and
+// rebuilds the log from the board when there is no usable one.
+export function migrateV2(state: PersistedStateV2): GameRecord | null {
+  const saved = state.config as Partial<BoardConfig>;
+  // Configs saved before versioning was introduced were generated by version 1
+  const config = {
+    ...state.config,
+    algorithmVersion: saved.algorithmVersion ?? 1,
+    mode: saved.mode ?? "duet",
+    side: saved.side ?? "A",
+    overlapGreens: saved.overlapGreens ?? 3,
+  } as BoardConfig;
+  if (!isSupportedAlgorithmVersion(config.algorithmVersion)) return null;
+  const expected = config.gridSize * config.gridSize;
+  if (!Array.isArray(state.cells) || state.cells.length !== expected) return null;
+  const reveals = isValidReveals(state.reveals, expected)
+    ? state.reveals
+    : Array.isArray(state.revealed) && state.revealed.length === expected
+    ? revealsFromBooleans(state.revealed, state.cells, config.side)
+    : null;
+  if (!reveals) return null;
+  const game = state.game && Array.isArray(state.game.guesses) ? state.game : null;
+  const history = isValidHistory(state.history) ? state.history : startHistory(snapshotFor(config, state.cells, reveals, game));
+  const { wordMode, words } = state;
+  if (wordMode && WORD_MODES.includes(wordMode) && Array.isArray(words) && (wordMode === "off" || words.length === expected)) {
+    return { history, wordMode, words };
+  }
+  return { history, wordMode: "off", words: [] };
+}
+
+function checkRecord(value: StoredGameV3): GameRecord | null {
+  if (!isValidHistory(value.history) || !WORD_MODES.includes(value.wordMode) || !Array.isArray(value.words)) return null;
+  const { states } = replayHistory(value.history);
+  const { config } = states[states.length - 1];
+  const total = config.gridSize * config.gridSize;
+  const words = value.wordMode === "off" || value.words.length === total ? value.words : [];
+  const record: GameRecord = { history: value.history, wordMode: value.wordMode, words };
+  return {
+    ...record,
+    ...(isValidPractice(value.practice) ? { practice: value.practice } : {}),
+    ...(isValidCampaignGame(value.campaign) ? { campaign: value.campaign } : {}),
+  };
+}
+
+// Bring a stored game of any schema up to the current one. Returns null when
+// the data is unreadable or was written by a newer schema.
+export function migrateStoredGame(raw: unknown): GameRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Partial<StoredGameV3> & Partial<PersistedStateV2>;
+  if (typeof value.schemaVersion === "number") {
+    return value.schemaVersion === SCHEMA_VERSION ? checkRecord(value as StoredGameV3) : null;
+  }
+  if (value.config) return migrateV2(value as PersistedStateV2);
+  const v2 = migrateLegacy(value as PersistedStateLegacy);
+  return v2 ? migrateV2(v2) : null;
+}
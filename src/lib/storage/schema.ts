@@ -0,0 +1,70 @@
+import type { CampaignGame } from "@/lib/campaign";
+import type { BoardConfig, CellColor } from "@/lib/engine";
+import type { CellReveals, DuetGame, DuetStatus } from "@/lib/game";
+import type { GameHistory } from "@/lib/history";
+import type { PracticeSetup } from "@/lib/practice";
+import type { WordMode } from "@/lib/words";
+
+// Schema 1: the original single saved board, before configs were stored
+export type PersistedStateLegacy = {
+  cells?: CellColor[];
+  revealed?: boolean[];
+  numGood?: number;
+  numBad?: number;
+  gridSize?: number;
+  seed?: string;
+};
+
+// Schema 2: a single saved game with its config. Fields were added over
+// time, so any of the optional ones may be missing.
+export type PersistedStateV2 = {
+  config: BoardConfig;
+  cells: CellColor[];
+  reveals?: CellReveals[];
+  // Written before reveals were tracked per side
+  revealed?: boolean[];
+  wordMode?: WordMode;
+  words?: string[];
+  // Null when the app is only used as a key card viewer
+  game?: DuetGame | null;
+  history?: GameHistory;
+};
+
+export const SCHEMA_VERSION = 3;
+
+// Schema 3: one entry of the saved games library. The board itself is
+// derived from the history, so only the log and the word layer are kept.
+export type GameRecord = {
+  history: GameHistory;
+  wordMode: WordMode;
+  words: string[];
+  // Only set while practicing Duet alone against the computer
+  practice?: PracticeSetup;
+  // Set when the board was dealt for a level of the Duet campaign
+  campaign?: CampaignGame;
+};
+
+export type StoredGameV3 = GameRecord & { schemaVersion: 3 };
+
+export type GameProgress = {
+  resolved: number;
+  total: number;
+  // Only set while playing Duet with timer tokens
+  status: DuetStatus | null;
+};
+
+export type SavedGameMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  digest: string;
+  progress: GameProgress;
+};
+
+export type LibraryV3 = {
+  schemaVersion: 3;
+  activeId: string | null;
+  // Most recently updated first
+  games: SavedGameMeta[];
+};
@@ -0,0 +1,5 @@
+export type { PeerHandlers, PeerSession } from "./peer";
+export { createPeerSession, isPeerSyncSupported } from "./peer";
+export type { SyncMessage } from "./protocol";
+export { SYNC_PROTOCOL_VERSION, parseSyncMessage } from "./protocol";
+export { adoptHistory, headDigest, recordSyncEvent, type SyncEvent } from "./replay";
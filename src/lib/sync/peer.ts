@@ -0,0 +1,121 @@
+import { parseSyncMessage, type SyncMessage } from "./protocol";
+
+export type PeerHandlers = {
+  onOpen: () => void;
+  onMessage: (message: SyncMessage) => void;
+  onClose: () => void;
+};
+
+export type PeerSession = {
+  // Host side: returns the offer to hand to the partner
+  createOffer: () => Promise<string>;
+  // Joining side: takes the partner's offer and returns the answer to hand back
+  acceptOffer: (offer: string) => Promise<string>;
+  acceptAnswer: (answer: string) => Promise<void>;
+  send: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+const SIGNAL_PREFIX = "CHSYNC1:";
+const CHANNEL_LABEL = "codenames-helper";
+// Candidates are bundled into the offer and answer since there is no server
+// to trickle them through. LAN candidates arrive almost immediately.
+const ICE_GATHER_TIMEOUT_MS = 3000;
+
+function encodeSignal(description: RTCSessionDescriptionInit): string {
+  return SIGNAL_PREFIX + btoa(JSON.stringify({ type: description.type, sdp: description.sdp }));
+}
+
+function decodeSignal(text: string, expected: "offer" | "answer"): RTCSessionDescriptionInit {
+  const trimmed = text.trim();
+  const start = trimmed.indexOf(SIGNAL_PREFIX);
+  if (start === -1) throw new Error(`That isn't a Codenames Helper ${expected}.`);
+  let parsed: { type?: unknown; sdp?: unknown };
+  try {
+    parsed = JSON.parse(atob(trimmed.slice(start + SIGNAL_PREFIX.length)));
+  } catch {
+    throw new Error(`The ${expected} is incomplete. Copy all of it and try again.`);
+  }
+  if (parsed.type !== expected || typeof parsed.sdp !== "string") {
+    throw new Error(parsed.type === "offer" || parsed.type === "answer" ? `Expected an ${expected}, got an ${parsed.type}.` : `That isn't a Codenames Helper ${expected}.`);
+  }
+  return { type: expected, sdp: parsed.sdp };
+}
+
+function waitForIceGathering(connection: RTCPeerConnection): Promise<void> {
+  if (connection.iceGatheringState === "complete") return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = window.setTimeout(done, ICE_GATHER_TIMEOUT_MS);
+    function done() {
+      window.clearTimeout(timer);
+      connection.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    }
+    function onChange() {
+      if (connection.iceGatheringState === "complete") done();
+    }
+    connection.addEventListener("icegatheringstatechange", onChange);
+  });
+}
+
+export function isPeerSyncSupported(): boolean {
+  return typeof RTCPeerConnection !== "undefined";
+}
+
+export function createPeerSession(handlers: PeerHandlers): PeerSession {
+  // No STUN or TURN servers: pairing is meant for devices on the same network
+  const connection = new RTCPeerConnection({ iceServers: [] });
+  let channel: RTCDataChannel | null = null;
+  let closed = false;
+
+  function attach(next: RTCDataChannel) {
+    channel = next;
+    next.onopen = () => handlers.onOpen();
+    next.onclose = () => close();
+    next.onmessage = (e: MessageEvent) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      const message = parseSyncMessage(data);
+      if (message) handlers.onMessage(message);
+    };
+  }
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    channel?.close();
+    connection.close();
+    handlers.onClose();
+  }
+
+  connection.ondatachannel = (e) => attach(e.channel);
+  connection.onconnectionstatechange = () => {
+    if (connection.connectionState === "failed" || connection.connectionState === "closed") close();
+  };
+
+  return {
+    async createOffer() {
+      attach(connection.createDataChannel(CHANNEL_LABEL));
+      await connection.setLocalDescription(await connection.createOffer());
+      await waitForIceGathering(connection);
+      return encodeSignal(connection.localDescription!);
+    },
+    async acceptOffer(offer) {
+      await connection.setRemoteDescription(decodeSignal(offer, "offer"));
+      await connection.setLocalDescription(await connection.createAnswer());
+      await waitForIceGathering(connection);
+      return encodeSignal(connection.localDescription!);
+    },
+    async acceptAnswer(answer) {
+      await connection.setRemoteDescription(decodeSignal(answer, "answer"));
+    },
+    send(message) {
+      if (channel && channel.readyState === "open") channel.send(JSON.stringify(message));
+    },
+    close,
+  };
+}
@@ -0,0 +1,98 @@
+import { isCellColor, parseBoardConfig, type Side } from "@/lib/engine";
+import { isValidHistory, type GameAction, type GameHistory } from "@/lib/history";
+
+// Bumped whenever a message changes shape, so mismatched builds refuse to pair
+export const SYNC_PROTOCOL_VERSION = 4;
+
+export type SyncMessage =
+  // First message on a new connection. The digest ignores `side`, so two
+  // partners on the same board always agree. `pack` hashes the words dealt.
+  | { type: "hello"; protocol: number; digest: string; side: Side; pack: string }
+  | { type: "action"; action: GameAction }
+  | { type: "undo" }
+  | { type: "redo" }
+  // Sent by the joining device after each event it sends or takes in. Once
+  // both counts match the host's, the digests must too or the boards forked.
+  | { type: "head"; sent: number; received: number; digest: string }
+  // The host's log, replacing the joiner's after a fork
+  | { type: "resync"; history: GameHistory }
+  // The joiner took the host's log; events from before it are dropped
+  | { type: "resynced" }
+  | { type: "bye"; reason: string };
+
+function isSide(value: unknown): value is Side {
+  return value === "A" || value === "B";
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// Messages come from another device, so actions are checked before they reach the log
+function parseAction(value: unknown): GameAction | null {
+  if (!value || typeof value !== "object") return null;
+  const action = value as Record<string, unknown>;
+  switch (action.type) {
+    case "config": {
+      const parsed = parseBoardConfig(action.config);
+      return parsed.ok ? { type: "config", config: parsed.config } : null;
+    }
+    case "seed":
+      return typeof action.seed === "string" ? { type: "seed", seed: action.seed } : null;
+    case "mark":
+      return isIndex(action.index) && isSide(action.key) && isCellColor(action.color)
+        ? { type: "mark", index: action.index, key: action.key, color: action.color }
+        : null;
+    case "guess":
+      return isIndex(action.index) ? { type: "guess", index: action.index } : null;
+    case "endTurn":
+      return { type: "endTurn" };
+    case "clueGiver":
+      return isSide(action.side) ? { type: "clueGiver", side: action.side } : null;
+    case "playMode": {
+      if (action.rules === null) return { type: "playMode", rules: null };
+      const rules = action.rules as Record<string, unknown> | undefined;
+      return rules && isIndex(rules.timerTokens) && isIndex(rules.mistakesAllowed)
+        ? { type: "playMode", rules: { timerTokens: rules.timerTokens, mistakesAllowed: rules.mistakesAllowed } }
+        : null;
+    }
+    case "clue": {
+      if (typeof action.word !== "string" || !action.word.trim() || !isIndex(action.number) || !isSide(action.side)) return null;
+      const clue = { type: "clue" as const, word: action.word.trim(), number: action.number, side: action.side };
+      if (action.team === undefined) return clue;
+      return action.team === "red" || action.team === "blue" ? { ...clue, team: action.team } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function parseSyncMessage(value: unknown): SyncMessage | null {
+  if (!value || typeof value !== "object") return null;
+  const message = value as Record<string, unknown>;
+  switch (message.type) {
+    case "hello":
+      return typeof message.protocol === "number" && typeof message.digest === "string" && isSide(message.side) && typeof message.pack === "string"
+        ? { type: "hello", protocol: message.protocol, digest: message.digest, side: message.side, pack: message.pack }
+        : null;
+    case "action": {
+      const action = parseAction(message.action);
+      return action ? { type: "action", action } : null;
+    }
+    case "undo":
+    case "redo":
+      return { type: message.type };
+    case "head":
+      return isIndex(message.sent) && isIndex(message.received) && typeof message.digest === "string"
+        ? { type: "head", sent: message.sent, received: message.received, digest: message.digest }
+        : null;
+    case "resync":
+      return isValidHistory(message.history) ? { type: "resync", history: message.history } : null;
+    case "resynced":
+      return { type: "resynced" };
+    case "bye":
+      return { type: "bye", reason: typeof message.reason === "string" ? message.reason : "" };
+    default:
+      return null;
+  }
+}
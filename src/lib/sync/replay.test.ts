@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_ALGORITHM_VERSION, defaultOverlaps, type BoardConfig } from "@/lib/engine";
+import { replayHistory, snapshotFor, startHistory, type GameHistory } from "@/lib/history";
+import { parseSyncMessage } from "./protocol";
+import { adoptHistory, headDigest, recordSyncEvent, type SyncEvent } from "./replay";
+
+const CONFIG: BoardConfig = {
+  algorithmVersion: LATEST_ALGORITHM_VERSION,
+  mode: "duet",
+  gridSize: 5,
+  numGood: 9,
+  numBad: 3,
+  seed: "replay",
+  side: "A",
+  overlapGreens: 3,
+  overlaps: defaultOverlaps(3),
+};
+
+function mark(index: number): SyncEvent {
+  return { type: "action", action: { type: "mark", index, key: "A", color: "green" } };
+}
+
+function play(history: GameHistory, events: SyncEvent[]): GameHistory {
+  return events.reduce((h, event, i) => recordSyncEvent(h, event, true, 1000 + i), history);
+}
+
+function latest(history: GameHistory) {
+  const { states } = replayHistory(history);
+  return states[states.length - 1];
+}
+
+describe("headDigest", () => {
+  it("matches for partners on the same board from either side", () => {
+    const a = play(startHistory(snapshotFor(CONFIG)), [mark(1), mark(2)]);
+    const b = play(startHistory(snapshotFor({ ...CONFIG, side: "B" })), [mark(1), mark(2)]);
+    expect(headDigest(b)).toBe(headDigest(a));
+  });
+
+  it("tells apart logs that took the same events in a different order", () => {
+    const start = play(startHistory(snapshotFor(CONFIG)), [mark(5)]);
+    const undoFirst = play(start, [{ type: "undo" }, mark(0)]);
+    const markFirst = play(start, [mark(0), { type: "undo" }]);
+    expect(headDigest(undoFirst)).not.toBe(headDigest(markFirst));
+  });
+
+  it("ignores key order in the game state", () => {
+    const rules = { timerTokens: 9, mistakesAllowed: 9 };
+    const history = play(startHistory(snapshotFor(CONFIG)), [{ type: "action", action: { type: "playMode", rules } }]);
+    const reordered = JSON.parse(JSON.stringify(history), (_, value) =>
+      value && typeof value === "object" && !Array.isArray(value) ? Object.fromEntries(Object.entries(value).reverse()) : value,
+    ) as GameHistory;
+    expect(headDigest(reordered)).toBe(headDigest(history));
+  });
+});
+
+describe("recordSyncEvent", () => {
+  it("skips marks and guesses for cards a smaller board no longer has", () => {
+    const small = { ...CONFIG, gridSize: 4, numGood: 5, numBad: 2, overlapGreens: 2, overlaps: defaultOverlaps(2) };
+    const start = play(startHistory(snapshotFor(CONFIG)), [
+      { type: "action", action: { type: "playMode", rules: { timerTokens: 9, mistakesAllowed: 9 } } },
+      { type: "action", action: { type: "config", config: small } },
+    ]);
+    const history = play(start, [mark(20), { type: "action", action: { type: "guess", index: 24 } }]);
+    expect(history).toBe(start);
+    expect(latest(history).reveals).toHaveLength(16);
+  });
+});
+
+describe("adoptHistory", () => {
+  it("takes the partner's board on this device's side with the original timestamps", () => {
+    const host = play(startHistory(snapshotFor(CONFIG)), [mark(3), { type: "action", action: { type: "clue", word: "river", number: 2, side: "A" } }]);
+    const adopted = adoptHistory(host, "B");
+    expect(latest(adopted).config.side).toBe("B");
+    expect(latest(adopted).cells).toEqual(snapshotFor({ ...CONFIG, side: "B" }).cells);
+    expect(latest(adopted).reveals).toEqual(latest(host).reveals);
+    expect(adopted.entries.map((e) => e.at)).toEqual(host.entries.map((e) => e.at));
+    expect(headDigest(adopted)).toBe(headDigest(host));
+  });
+
+  it("leaves out the partner switching sides", () => {
+    const host = play(startHistory(snapshotFor(CONFIG)), [mark(3), { type: "action", action: { type: "config", config: { ...CONFIG, side: "B" } } }]);
+    const adopted = adoptHistory(host, "B");
+    expect(adopted.entries).toHaveLength(1);
+    expect(latest(adopted).config.side).toBe("B");
+  });
+});
+
+describe("parseSyncMessage", () => {
+  it("needs the word pack hash in a hello", () => {
+    const hello = { type: "hello", protocol: 4, digest: "ABC", side: "A" };
+    expect(parseSyncMessage(hello)).toBeNull();
+    expect(parseSyncMessage({ ...hello, pack: "0k2x9ab" })).toEqual({ ...hello, pack: "0k2x9ab" });
+  });
+
+  it("accepts heads and resyncs with a log that replays", () => {
+    const history = startHistory(snapshotFor(CONFIG));
+    expect(parseSyncMessage({ type: "head", sent: 2, received: 1, digest: "abc" })).toEqual({ type: "head", sent: 2, received: 1, digest: "abc" });
+    expect(parseSyncMessage({ type: "head", sent: -1, received: 1, digest: "abc" })).toBeNull();
+    expect(parseSyncMessage(JSON.parse(JSON.stringify({ type: "resync", history })))).toMatchObject({ type: "resync" });
+    expect(parseSyncMessage({ type: "resync", history: { base: null, entries: [] } })).toBeNull();
+  });
+});
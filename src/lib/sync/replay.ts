@@ -0,0 +1,68 @@
+import { configDigest, xfnv1a, type Side } from "@/lib/engine";
+import {
+  buildClueLog,
+  recordAction,
+  recordRedo,
+  recordUndo,
+  replayHistory,
+  snapshotFor,
+  startHistory,
+  type GameHistory,
+  type LogEntry,
+} from "@/lib/history";
+import type { SyncMessage } from "./protocol";
+
+// The board changes devices pass to each other, directly or through a relay room
+export type SyncEvent = Extract<SyncMessage, { type: "action" | "undo" | "redo" }>;
+
+// Record an event in the log. Config changes from another device carry the
+// sender's side, so this device keeps its own; `own` events are recorded as
+// they were made here.
+export function recordSyncEvent(history: GameHistory, event: SyncEvent, own = false, at = Date.now()): GameHistory {
+  const { states, steps, undone } = replayHistory(history);
+  switch (event.type) {
+    case "undo":
+      return steps.length > 0 ? recordUndo(history, at) : history;
+    case "redo":
+      return undone.length > 0 ? recordRedo(history, at) : history;
+    case "action": {
+      const current = states[states.length - 1];
+      const { action } = event;
+      const mine = own || action.type !== "config" ? action : { ...action, config: { ...action.config, side: current.config.side } };
+      return recordAction(history, current, mine, at);
+    }
+  }
+}
+
+function eventFor(entry: LogEntry): SyncEvent {
+  return entry.type === "undo" || entry.type === "redo" ? { type: entry.type } : { type: "action", action: entry };
+}
+
+// Key order differs between a board built here and one parsed from a message
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableJson(record[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// What two partners should agree on once neither has anything in flight: the
+// board, the marks, the game and the clues given on it. Sides are left out.
+export function headDigest(history: GameHistory): string {
+  const timeline = replayHistory(history);
+  const { config, reveals, game } = timeline.states[timeline.states.length - 1];
+  return xfnv1a(stableJson([configDigest(config), reveals, game, buildClueLog(timeline)])).toString(36);
+}
+
+// Take over a partner's log on `side`, keeping its timestamps. Steps that
+// only switched the partner's side change nothing here and are left out.
+export function adoptHistory(history: GameHistory, side: Side): GameHistory {
+  const { base } = history;
+  const start = startHistory(snapshotFor({ ...base.config, side }, undefined, base.reveals, base.game));
+  return history.entries.reduce((adopted, entry) => recordSyncEvent(adopted, eventFor(entry), false, entry.at), start);
+}
@@ -0,0 +1,51 @@
+import { createWordPack } from "./pack";
+
+export const BASIC_PACK = createWordPack("Basic (English)", [
+  "acid", "acorn", "actor", "alarm", "album", "alien", "alley", "amber", "anchor", "angel",
+  "ankle", "apple", "apron", "arch", "arena", "armor", "arrow", "ash", "atlas", "attic", "avocado",
+  "axe", "badge", "bagel", "bakery", "ball", "balloon", "bamboo", "banana", "band", "bank", "bar",
+  "barn", "barrel", "basket", "bat", "battery", "beach", "beak", "bean", "bear", "beard", "bed",
+  "bee", "bell", "belt", "bench", "berry", "bicycle", "bird", "blade", "blanket", "block", "boat",
+  "bolt", "bomb", "bone", "book", "boot", "bottle", "bow", "bowl", "box", "brain", "branch",
+  "bread", "brick", "bridge", "broom", "brush", "bubble", "bucket", "bug", "bulb", "bull", "bus",
+  "butter", "button", "cabin", "cable", "cactus", "cake", "camel", "camera", "camp", "canal",
+  "candle", "cannon", "canoe", "cap", "captain", "car", "card", "carpet", "carrot", "castle",
+  "cat", "cave", "cell", "chain", "chair", "chalk", "charge", "cheese", "chef", "cherry", "chess",
+  "chest", "chicken", "chip", "church", "circle", "circus", "clay", "cliff", "clock", "cloud",
+  "clown", "club", "coach", "coal", "coast", "coat", "code", "coin", "comet", "compass", "concert",
+  "cook", "copper", "coral", "cotton", "court", "cow", "crab", "crane", "crater", "crown",
+  "crystal", "cube", "cup", "curtain", "cycle", "dance", "dart", "deck", "desert", "diamond",
+  "dice", "dinosaur", "doctor", "dog", "doll", "dolphin", "door", "dragon", "drill", "drum",
+  "duck", "dust", "eagle", "ear", "earth", "echo", "egg", "elbow", "electric", "elephant",
+  "engine", "envelope", "eye", "fabric", "face", "fair", "fan", "farm", "feather", "fence",
+  "field", "file", "film", "fire", "fish", "flag", "flame", "flute", "fog", "forest", "fork",
+  "fort", "fossil", "fountain", "fox", "frame", "frog", "frost", "fruit", "game", "garden", "gas",
+  "gate", "gem", "ghost", "giant", "glacier", "glass", "glove", "gold", "golf", "grape", "grass",
+  "guitar", "hammer", "hand", "harbor", "harp", "hat", "hawk", "heart", "helmet", "hill", "hive",
+  "honey", "hook", "horn", "horse", "hospital", "hotel", "house", "ice", "island", "ivory",
+  "jacket", "jade", "jam", "jar", "jet", "jewel", "judge", "juice", "jungle", "kangaroo", "kettle",
+  "key", "king", "kitchen", "kite", "knife", "knight", "knot", "ladder", "lake", "lamp", "laser",
+  "lawyer", "leaf", "lemon", "lens", "letter", "library", "light", "lighthouse", "lion", "lock",
+  "log", "lotus", "magnet", "mail", "map", "marble", "market", "mask", "match", "maze", "medal",
+  "mercury", "meteor", "milk", "mill", "mine", "mint", "mirror", "model", "moon", "moss", "mouse",
+  "mouth", "mud", "mummy", "museum", "nail", "needle", "nest", "net", "night", "ninja", "note",
+  "nurse", "oak", "ocean", "octopus", "office", "oil", "olive", "opera", "orange", "orbit",
+  "organ", "owl", "oyster", "paint", "palace", "palm", "pan", "paper", "parachute", "park",
+  "parrot", "pass", "pearl", "pen", "penguin", "pepper", "piano", "pie", "pig", "pilot", "pin",
+  "pipe", "pirate", "pistol", "pitch", "planet", "plate", "plot", "pocket", "poison", "pole",
+  "pool", "port", "post", "pot", "potato", "press", "prince", "prism", "puzzle", "pyramid",
+  "queen", "rabbit", "racket", "radar", "radio", "rail", "rain", "ranch", "ray", "record", "reef",
+  "ring", "river", "road", "robot", "rock", "rocket", "roof", "root", "rope", "rose", "ruler",
+  "saddle", "sail", "salt", "sand", "satellite", "saturn", "scale", "school", "scorpion", "screen",
+  "sea", "seal", "server", "shadow", "shark", "sheep", "shell", "ship", "shoe", "shop", "silk",
+  "singer", "sink", "skate", "skull", "sky", "slide", "snake", "snow", "soap", "sock", "soldier",
+  "soup", "space", "spider", "spike", "spine", "spoon", "spring", "spy", "square", "squirrel",
+  "stadium", "stamp", "star", "station", "steam", "stick", "storm", "straw", "stream", "string",
+  "submarine", "sugar", "suit", "sun", "swan", "sword", "table", "tail", "tank", "tape", "teacher",
+  "telescope", "temple", "tent", "thief", "thread", "throne", "thunder", "ticket", "tiger", "tire",
+  "toast", "tooth", "torch", "tower", "track", "train", "tree", "triangle", "truck", "trumpet",
+  "tube", "tunnel", "turtle", "umbrella", "unicorn", "valley", "vampire", "van", "vase", "violin",
+  "volcano", "wagon", "wall", "wand", "watch", "water", "wave", "web", "whale", "wheel", "whip",
+  "whistle", "wind", "window", "wing", "witch", "wizard", "wolf", "wood", "worm", "yard", "yarn",
+  "zebra", "zero",
+], "basic-en");
@@ -0,0 +1,10 @@
+import { seedToRng, shuffleArraySeeded } from "@/lib/engine";
+
+// Deal `count` distinct words for a board. Only the seed feeds the shuffle,
+// so both sides of the same board get identical words.
+export function dealWords(words: string[], count: number, seed: string): string[] {
+  const rng = seedToRng((seed || "default") + "|words");
+  const dealt = shuffleArraySeeded(words, rng).slice(0, count);
+  while (dealt.length < count) dealt.push("");
+  return dealt;
+}
@@ -0,0 +1,5 @@
+export type { WordMode, WordPack, WordPackParseResult } from "./types";
+export { BASIC_PACK } from "./basic";
+export { dealWords } from "./deal";
+export { MIN_PACK_WORDS, createWordPack, hashWords, normalizeWords, parseWordPackFile, toPackRef } from "./pack";
+export { deleteCustomPack, listCustomPacks, saveCustomPack } from "./store";
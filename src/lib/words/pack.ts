@@ -0,0 +1,114 @@
+import { MIN_GRID_SIZE, xfnv1a, type WordPackRef } from "@/lib/engine";
+import type { WordPack, WordPackParseResult } from "./types";
+
+export const MIN_PACK_WORDS = MIN_GRID_SIZE * MIN_GRID_SIZE;
+export const MAX_WORD_LENGTH = 32;
+
+// Order matters: the deal shuffles the list as stored, so it is part of the hash
+export function hashWords(words: string[]): string {
+  return xfnv1a(words.join("\n")).toString(36).padStart(7, "0");
+}
+
+// Trim, collapse inner whitespace and drop case-insensitive duplicates,
+// keeping the first spelling so the order stays stable across devices.
+export function normalizeWords(raw: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const entry of raw) {
+    const word = entry.trim().replace(/\s+/g, " ");
+    if (!word || word.length > MAX_WORD_LENGTH) continue;
+    const key = word.toLocaleLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(word);
+  }
+  return out;
+}
+
+export function createWordPack(name: string, words: string[], builtInId?: string): WordPack {
+  const normalized = normalizeWords(words);
+  const hash = hashWords(normalized);
+  if (builtInId) return { id: builtInId, name, words: normalized, hash, builtIn: true };
+  // Deriving the ID from the content lets partners who import the same file match
+  return { id: `custom-${hash}`, name, words: normalized, hash };
+}
+
+export function toPackRef(pack: WordPack): WordPackRef {
+  return { id: pack.id, hash: pack.hash };
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "") || "Custom pack";
+}
+
+function parseCsvCells(text: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === "\"" && text[i + 1] === "\"") {
+        current += "\"";
+        i += 1;
+      } else if (ch === "\"") {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === "\"") {
+      quoted = true;
+    } else if (ch === "," || ch === ";" || ch === "\n" || ch === "\r") {
+      cells.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+function parseJsonWords(text: string): { name?: string; words: string[] } | null {
+  const data: unknown = JSON.parse(text);
+  if (Array.isArray(data)) {
+    return data.every((w) => typeof w === "string") ? { words: data } : null;
+  }
+  if (data && typeof data === "object") {
+    const obj = data as Record<string, unknown>;
+    if (Array.isArray(obj.words) && obj.words.every((w) => typeof w === "string")) {
+      return { name: typeof obj.name === "string" ? obj.name : undefined, words: obj.words };
+    }
+  }
+  return null;
+}
+
+// Accepts plain text (one word per line), CSV (any cell is a word) or JSON
+// (an array of strings, or `{ name, words }`).
+export function parseWordPackFile(fileName: string, text: string, minWords = MIN_PACK_WORDS): WordPackParseResult {
+  const lower = fileName.toLowerCase();
+  let name = stripExtension(fileName);
+  let words: string[];
+
+  if (lower.endsWith(".json")) {
+    try {
+      const parsed = parseJsonWords(text);
+      if (!parsed) return { ok: false, error: "JSON packs must be an array of words or an object with a \"words\" array." };
+      words = parsed.words;
+      name = parsed.name?.trim() || name;
+    } catch {
+      return { ok: false, error: "The file isn't valid JSON." };
+    }
+  } else if (lower.endsWith(".csv")) {
+    words = parseCsvCells(text);
+  } else {
+    words = text.split(/\r?\n/);
+  }
+
+  const pack = createWordPack(name, words);
+  const needed = Math.max(minWords, MIN_PACK_WORDS);
+  if (pack.words.length < needed) {
+    return { ok: false, error: `"${name}" has ${pack.words.length} unique words; at least ${needed} are needed.` };
+  }
+  return { ok: true, pack };
+}
@@ -0,0 +1,53 @@
+import type { WordPack } from "./types";
+
+const DB_NAME = "codenames-helper";
+const DB_VERSION = 1;
+const PACK_STORE = "wordPacks";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PACK_STORE)) {
+        db.createObjectStore(PACK_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await requestToPromise(run(db.transaction(PACK_STORE, mode).objectStore(PACK_STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+export async function listCustomPacks(): Promise<WordPack[]> {
+  const packs = await withStore<WordPack[]>("readonly", (store) => store.getAll());
+  return packs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Packs are keyed by their content-derived ID, so re-importing the same words is a no-op
+export async function saveCustomPack(pack: WordPack): Promise<void> {
+  await withStore("readwrite", (store) => store.put(pack));
+}
+
+export async function deleteCustomPack(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
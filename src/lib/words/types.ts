@@ -0,0 +1,13 @@
+export type WordPack = {
+  id: string;
+  name: string;
+  words: string[];
+  hash: string;
+  builtIn?: boolean;
+};
+
+export type WordMode = "off" | "deal" | "manual";
+
+export type WordPackParseResult =
+  | { ok: true; pack: WordPack }
+  | { ok: false; error: string };